@@ -1,12 +1,20 @@
-const { app, BrowserWindow, ipcMain, protocol, net, shell } = require('electron');
+const { app, BrowserWindow, ipcMain, protocol, net, shell, globalShortcut, safeStorage, dialog, session } = require('electron');
 const path = require('path');
+const { pathToFileURL } = require('url');
 const fs = require('fs-extra');
 const crypto = require('crypto');
+const { Readable } = require('stream');
 
 let mainWindow;
 
 const isDev = process.env.NODE_ENV === 'development';
 
+// The bundled frontend is served from its own origin (ting-app://app) instead of
+// file://, so the renderer can keep webSecurity on.
+const APP_PROTOCOL = 'ting-app';
+const APP_ORIGIN = isDev ? 'http://localhost:5173' : `${APP_PROTOCOL}://app`;
+const frontendRoot = path.join(__dirname, '../resources/frontend');
+
 function createWindow() {
   mainWindow = new BrowserWindow({
     width: 1200,
@@ -15,7 +23,7 @@ function createWindow() {
       preload: path.join(__dirname, 'preload.js'),
       nodeIntegration: false,
       contextIsolation: true,
-      webSecurity: false // Disable webSecurity to allow CORS from file:// to https://
+      webSecurity: true
     },
     icon: path.join(__dirname, 'icon.png')
   });
@@ -24,27 +32,600 @@ function createWindow() {
   mainWindow.setMenu(null);
 
   if (isDev) {
-    // Enable insecure localhost in dev
-    app.commandLine.appendSwitch('ignore-certificate-errors');
-    app.commandLine.appendSwitch('disable-features', 'Autofill,AutofillServerCommunication');
-    mainWindow.loadURL('http://localhost:5173');
+    mainWindow.loadURL(APP_ORIGIN);
     mainWindow.webContents.openDevTools();
   } else {
-    // In production, we might want to allow it too if users have self-signed certs
-    // CAUTION: This disables SSL validation globally.
-    // For a self-hosted app, this is often requested.
-    app.commandLine.appendSwitch('ignore-certificate-errors');
-    
-    // Load local file
+    // Load the bundled frontend through ting-app://
     // Ensure frontend is built to resources/frontend
-    mainWindow.loadFile(path.join(__dirname, '../resources/frontend/index.html'));
+    mainWindow.loadURL(`${APP_ORIGIN}/index.html`);
   }
 }
 
-app.commandLine.appendSwitch('ignore-certificate-errors');
-app.commandLine.appendSwitch('allow-insecure-localhost', 'true');
+if (isDev) {
+  // Enable insecure localhost in dev
+  app.commandLine.appendSwitch('allow-insecure-localhost', 'true');
+  app.commandLine.appendSwitch('disable-features', 'Autofill,AutofillServerCommunication');
+}
+
+// Offline media cache
+// Files live in <userData>/media_cache/<serverKey>/ so that switching servers
+// never mixes chapters (chapter IDs are only unique per server).
+const mediaCacheRoot = path.join(app.getPath('userData'), 'media_cache');
+let cacheServerKey = 'default';
+const activeDownloads = new Map(); // taskId -> { request, fileName }
+const activePartFiles = new Set(); // .part files being written, one download each
+
+const getServerKey = (serverUrl) => {
+  if (!serverUrl) return 'default';
+  const normalized = serverUrl.trim().replace(/\/+$/, '').toLowerCase();
+  return crypto.createHash('md5').update(normalized).digest('hex').slice(0, 12);
+};
+
+const getCacheDir = () => path.join(mediaCacheRoot, cacheServerKey);
+const getCoverDir = () => path.join(getCacheDir(), 'covers');
+
+// Renderer-supplied names must never escape the cache directory
+const safeFileName = (fileName) => path.basename(String(fileName || ''));
+
+const getDirSize = async (dir) => {
+  if (!(await fs.pathExists(dir))) return 0;
+  let total = 0;
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await getDirSize(fullPath);
+    } else {
+      const stat = await fs.stat(fullPath);
+      total += stat.size;
+    }
+  }
+  return total;
+};
+
+// Saved logins, encrypted with the OS keychain (DPAPI / Keychain / libsecret).
+// A record is { username, refreshToken } or, for servers that issue no refresh
+// token, { username, password }, plus the origin of the server it belongs to.
+// Secrets never leave the main process: sessions are renewed here and the
+// renderer only receives the new access token.
+const credentialsFile = path.join(app.getPath('userData'), 'credentials.json');
+const CREDENTIAL_FIELDS = ['username', 'password', 'refreshToken', 'origin'];
+
+const readCredentials = async () => {
+  try {
+    return (await fs.readJson(credentialsFile)) || {};
+  } catch {
+    return {};
+  }
+};
+
+// Accounts are server profile ids chosen by the renderer
+const credentialKey = (account) => String(account || 'default');
+
+const loadCredentialRecord = async (account) => {
+  const encrypted = (await readCredentials())[credentialKey(account)];
+  if (!encrypted || !safeStorage.isEncryptionAvailable()) return null;
+  try {
+    return JSON.parse(safeStorage.decryptString(Buffer.from(encrypted, 'base64')));
+  } catch (err) {
+    console.error('Load credential failed:', err);
+    return null;
+  }
+};
+
+// Merge `update` into the record, null fields are removed; an empty record is deleted
+const updateCredentialRecord = async (account, update) => {
+  const credentials = await readCredentials();
+  const record = { ...(await loadCredentialRecord(account)) };
+  for (const field of CREDENTIAL_FIELDS) {
+    if (update[field] === null) delete record[field];
+    else if (typeof update[field] === 'string') record[field] = update[field];
+  }
+  if (record.password || record.refreshToken || record.username) {
+    credentials[credentialKey(account)] = safeStorage.encryptString(JSON.stringify(record)).toString('base64');
+  } else {
+    delete credentials[credentialKey(account)];
+  }
+  await fs.outputJson(credentialsFile, credentials);
+};
+
+const postJson = (url, body) => net.fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+// Rejected outright (as opposed to the server being unreachable or failing)
+const isRejected = (status) => status === 400 || status === 401 || status === 403 || status === 404;
+
+// Renew a session with the saved refresh token, or the saved password when the
+// server issues no refresh tokens. Throws when the server can't be reached.
+const renewSession = async (account, baseUrl) => {
+  const record = await loadCredentialRecord(account);
+  if (!record) return { rejected: true };
+  const base = String(baseUrl || '').replace(/\/+$/, '');
+  // The secret is only ever sent to the server it was saved for, or one of its configured addresses
+  const origin = toOrigin(base);
+  if (!origin || (origin !== record.origin && !serverOrigins.has(origin))) {
+    throw new Error(`Refusing to renew the session with ${origin || 'an invalid address'}`);
+  }
+
+  if (record.refreshToken) {
+    const response = await postJson(`${base}/api/auth/refresh`, { refresh_token: record.refreshToken });
+    if (!response.ok && !isRejected(response.status)) throw new Error(`Token refresh failed: ${response.status}`);
+    const data = response.ok ? await response.json() : {};
+    if (data.token) {
+      // A migrated record may still carry the password, the refresh token replaces it
+      if (record.password || (data.refresh_token && data.refresh_token !== record.refreshToken)) {
+        await updateCredentialRecord(account, { refreshToken: data.refresh_token || record.refreshToken, password: null });
+      }
+      return { token: data.token, user: data.user || null };
+    }
+    await updateCredentialRecord(account, { refreshToken: null });
+  }
+
+  if (record.username && record.password) {
+    const response = await postJson(`${base}/api/auth/login`, { username: record.username, password: record.password });
+    if (isRejected(response.status)) return { rejected: true };
+    if (!response.ok) throw new Error(`Re-login failed: ${response.status}`);
+    const data = await response.json();
+    if (!data.token) return { rejected: true };
+    // The server issues refresh tokens now, keep that instead of the password
+    if (data.refresh_token) {
+      await updateCredentialRecord(account, { refreshToken: data.refresh_token, password: null });
+    }
+    return { token: data.token, user: data.user || null };
+  }
+
+  return { rejected: true };
+};
+
+// Health check one server address; the address is resolved through redirects
+// (e.g. http -> https on a reverse proxy) so the app talks to the final one.
+const probeEndpoint = async (endpoint, timeoutMs) => {
+  let base = String(endpoint || '').trim().replace(/\/+$/, '');
+  if (!/^https?:\/\//i.test(base)) base = `http://${base}`;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const startedAt = Date.now();
+  try {
+    const response = await net.fetch(`${base}/api/health`, { signal: controller.signal, cache: 'no-store' });
+    const latency = Date.now() - startedAt;
+    response.body?.cancel().catch(() => {});
+    const resolvedUrl = (response.url || base).replace(/\/api\/health\/?(\?.*)?$/, '');
+    return { url: endpoint, resolvedUrl, ok: response.ok, latency, status: response.status };
+  } catch (err) {
+    return { url: endpoint, resolvedUrl: base, ok: false, latency: null, error: err.message };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// ting-cache://media/<fileName> and ting-cache://covers/<bookId>.jpg
+// Registered as a privileged scheme so <audio> can stream and seek cached files.
+const CACHE_PROTOCOL = 'ting-cache';
+
+protocol.registerSchemesAsPrivileged([
+  {
+    scheme: APP_PROTOCOL,
+    privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true }
+  },
+  {
+    scheme: CACHE_PROTOCOL,
+    privileges: { standard: true, secure: true, supportFetchAPI: true, stream: true, corsEnabled: true }
+  }
+]);
+
+const MIME_TYPES = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.m4b': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.flac': 'audio/flac',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.wav': 'audio/wav',
+  '.wma': 'audio/x-ms-wma',
+  '.jpg': 'image/jpeg'
+};
+
+const handleCacheRequest = async (request) => {
+  const url = new URL(request.url);
+  const name = safeFileName(decodeURIComponent(url.pathname));
+  let filePath;
+  if (url.hostname === 'media') {
+    filePath = path.join(getCacheDir(), name);
+  } else if (url.hostname === 'covers') {
+    filePath = path.join(getCoverDir(), name);
+  } else {
+    return new Response('Not Found', { status: 404 });
+  }
+
+  let stat;
+  try {
+    stat = await fs.stat(filePath);
+  } catch {
+    return new Response('Not Found', { status: 404 });
+  }
+
+  const headers = {
+    'Content-Type': MIME_TYPES[path.extname(name).toLowerCase()] || 'application/octet-stream',
+    'Accept-Ranges': 'bytes',
+    'Access-Control-Allow-Origin': '*',
+    // Content-Range is not CORS-safelisted; waveform and sub-chapter probes need the total size
+    'Access-Control-Expose-Headers': 'Content-Range, Content-Length, Accept-Ranges'
+  };
+
+  // <audio> seeks with Range requests, answer them with 206 partial content
+  const range = request.headers.get('Range');
+  const match = range && range.match(/bytes=(\d*)-(\d*)/);
+  if (match && (match[1] || match[2])) {
+    let start = match[1] ? parseInt(match[1], 10) : stat.size - parseInt(match[2], 10);
+    let end = match[1] && match[2] ? parseInt(match[2], 10) : stat.size - 1;
+    start = Math.max(0, start);
+    end = Math.min(end, stat.size - 1);
+    if (start > end) {
+      return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${stat.size}` } });
+    }
+    const stream = fs.createReadStream(filePath, { start, end });
+    return new Response(Readable.toWeb(stream), {
+      status: 206,
+      headers: {
+        ...headers,
+        'Content-Range': `bytes ${start}-${end}/${stat.size}`,
+        'Content-Length': String(end - start + 1)
+      }
+    });
+  }
+
+  return new Response(Readable.toWeb(fs.createReadStream(filePath)), {
+    status: 200,
+    headers: { ...headers, 'Content-Length': String(stat.size) }
+  });
+};
+
+// Blank page on the app origin, used to copy localStorage over from file://
+const STORAGE_MIGRATION_PATH = '/__migrate-storage';
+
+const handleAppRequest = async (request) => {
+  const { pathname } = new URL(request.url);
+  if (pathname === STORAGE_MIGRATION_PATH) {
+    return new Response('<!DOCTYPE html><title></title>', { headers: { 'Content-Type': 'text/html' } });
+  }
+  const filePath = path.join(frontendRoot, decodeURIComponent(pathname === '/' ? '/index.html' : pathname));
+  // Never serve anything outside the bundled frontend
+  if (!filePath.startsWith(frontendRoot + path.sep)) {
+    return new Response('Not Found', { status: 404 });
+  }
+  return net.fetch(pathToFileURL(filePath).toString());
+};
+
+// Before the frontend moved to ting-app://, its localStorage belonged to file://.
+// Copy it over once so logins, progress and settings survive the upgrade.
+const storageMigratedFlag = path.join(app.getPath('userData'), 'storage-origin-migrated');
+
+const migrateFileOriginStorage = async () => {
+  if (isDev || (await fs.pathExists(storageMigratedFlag))) return;
+  const win = new BrowserWindow({ show: false, webPreferences: { nodeIntegration: false, contextIsolation: true } });
+  try {
+    const blankPage = path.join(app.getPath('temp'), 'ting-storage-migration.html');
+    await fs.outputFile(blankPage, '<!DOCTYPE html><title></title>');
+    await win.loadFile(blankPage);
+    const entries = await win.webContents.executeJavaScript('JSON.stringify(Object.entries(localStorage))');
+
+    await win.loadURL(`${APP_ORIGIN}${STORAGE_MIGRATION_PATH}`);
+    await win.webContents.executeJavaScript(
+      `JSON.parse(${JSON.stringify(entries)}).forEach(([key, value]) => {
+        if (localStorage.getItem(key) === null) localStorage.setItem(key, value);
+      })`
+    );
+    await session.defaultSession.flushStorageData();
+    await fs.outputFile(storageMigratedFlag, new Date().toISOString());
+  } catch (err) {
+    console.error('Migrate localStorage from file:// failed:', err);
+  } finally {
+    win.destroy();
+  }
+};
+
+// Origins of the configured server addresses (set by the renderer, plus where
+// they redirect to). Only their responses are given CORS headers.
+let serverOrigins = new Set();
+
+const toOrigin = (url) => {
+  let value = String(url || '').trim();
+  if (!value) return null;
+  if (!/^https?:\/\//i.test(value)) value = `http://${value}`;
+  try {
+    return new URL(value).origin;
+  } catch {
+    return null;
+  }
+};
+
+const findHeader = (headers, name) => Object.keys(headers || {}).find(key => key.toLowerCase() === name);
+
+// With webSecurity on, servers must allow the app origin. Self-hosted servers
+// rarely configure CORS for it, so the headers are added here when the server
+// sent none. Other hosts are left alone.
+const allowAppOrigin = () => {
+  session.defaultSession.webRequest.onHeadersReceived({ urls: ['http://*/*', 'https://*/*'] }, (details, callback) => {
+    if (details.resourceType === 'mainFrame' || !serverOrigins.has(toOrigin(details.url))) {
+      callback({});
+      return;
+    }
+    const headers = details.responseHeaders || {};
+    // Follow the server to its redirect target, e.g. http -> https on a reverse proxy
+    const location = findHeader(headers, 'location');
+    if (details.statusCode >= 300 && details.statusCode < 400 && location) {
+      try {
+        serverOrigins.add(new URL(headers[location][0], details.url).origin);
+      } catch {
+        // malformed Location, the redirect fails on its own
+      }
+    }
+    if (findHeader(headers, 'access-control-allow-origin')) {
+      callback({});
+      return;
+    }
+    const responseHeaders = { ...headers };
+    responseHeaders['Access-Control-Allow-Origin'] = [APP_ORIGIN];
+    responseHeaders['Access-Control-Allow-Methods'] = ['GET, POST, PUT, PATCH, DELETE, OPTIONS'];
+    responseHeaders['Access-Control-Allow-Headers'] = ['Authorization, Content-Type, Range'];
+    responseHeaders['Access-Control-Expose-Headers'] = ['Content-Length, Content-Range, Content-Type'];
+    // Answer preflights even when the server has no OPTIONS route
+    if (details.method === 'OPTIONS') {
+      callback({ responseHeaders, statusLine: 'HTTP/1.1 204 No Content' });
+      return;
+    }
+    callback({ responseHeaders });
+  });
+};
+
+// TLS trust on first use: certificates the system doesn't trust (self-signed,
+// private CA) of the configured servers are shown to the user once and pinned
+// per host. Other hosts are rejected without asking.
+// { hostname: { fingerprint, subject, issuer, pinnedAt } }
+const trustedCertsFile = path.join(app.getPath('userData'), 'trusted-certificates.json');
+let trustedCerts = null;
+const pendingTrust = new Map(); // `${hostname}|${fingerprint}` -> Promise<boolean>
+const declinedCerts = new Set(); // Not asked again until restart
+
+const getTrustedCerts = () => {
+  if (!trustedCerts) {
+    try {
+      trustedCerts = fs.readJsonSync(trustedCertsFile);
+    } catch {
+      trustedCerts = {};
+    }
+  }
+  return trustedCerts;
+};
+
+const saveTrustedCerts = () => {
+  fs.outputJson(trustedCertsFile, getTrustedCerts()).catch(err => console.error('Save trusted certificates failed:', err));
+};
+
+// SHA-256 of the DER certificate, as browsers show it
+const getFingerprint = (certificate) => {
+  const der = Buffer.from(certificate.data.replace(/-----[^-]+-----/g, '').replace(/\s+/g, ''), 'base64');
+  return crypto.createHash('sha256').update(der).digest('hex').toUpperCase().match(/.{2}/g).join(':');
+};
+
+const isServerHost = (hostname) =>
+  !!hostname && [...serverOrigins].some(origin => new URL(origin).hostname === hostname);
+
+const confirmCertificate = (hostname, certificate, errorText) => {
+  const fingerprint = getFingerprint(certificate);
+  const pinned = getTrustedCerts()[hostname];
+  if (pinned && pinned.fingerprint === fingerprint) return Promise.resolve(true);
+  const key = `${hostname}|${fingerprint}`;
+  if (declinedCerts.has(key) || !isServerHost(hostname)) return Promise.resolve(false);
+
+  // Many requests fail at once, ask only once
+  if (!pendingTrust.has(key)) {
+    const changed = !!pinned;
+    const options = {
+      type: 'warning',
+      buttons: ['取消', changed ? '信任新证书' : '信任此证书'],
+      defaultId: 0,
+      cancelId: 0,
+      noLink: true,
+      title: changed ? '服务器证书已变更' : '不受信任的服务器证书',
+      message: changed ? `${hostname} 的证书与之前信任的不一致` : `${hostname} 使用了系统不信任的证书`,
+      detail: [
+        changed
+          ? '可能是服务器更换了证书，也可能是连接被劫持。请与服务器管理员核对指纹后再继续。'
+          : '如果这是你自己的服务器（例如自签名证书），请核对指纹后信任。之后只接受这一证书。',
+        '',
+        `颁发给: ${certificate.subjectName}`,
+        `颁发者: ${certificate.issuerName}`,
+        `有效期至: ${new Date(certificate.validExpiry * 1000).toLocaleDateString()}`,
+        `SHA-256 指纹:\n${fingerprint}`,
+        errorText ? `\n错误: ${errorText}` : ''
+      ].join('\n')
+    };
+    const parent = mainWindow && !mainWindow.isDestroyed() ? mainWindow : null;
+    const prompt = (parent ? dialog.showMessageBox(parent, options) : dialog.showMessageBox(options))
+      .then(({ response }) => {
+        const trusted = response === 1;
+        if (trusted) {
+          getTrustedCerts()[hostname] = {
+            fingerprint,
+            subject: certificate.subjectName,
+            issuer: certificate.issuerName,
+            pinnedAt: Date.now()
+          };
+          saveTrustedCerts();
+        } else {
+          declinedCerts.add(key);
+        }
+        return trusted;
+      })
+      .finally(() => pendingTrust.delete(key));
+    pendingTrust.set(key, prompt);
+  }
+  return pendingTrust.get(key);
+};
+
+// Navigations of the app's own windows
+app.on('certificate-error', (event, webContents, url, error, certificate, callback) => {
+  event.preventDefault();
+  let hostname = '';
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    // keep empty, no configured server matches and the certificate is rejected
+  }
+  confirmCertificate(hostname, certificate, error)
+    .then(callback)
+    .catch(() => callback(false));
+});
+
+const createAbortError = () => Object.assign(new Error('Download aborted'), { aborted: true });
+
+const sendDownloadProgress = (data) => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('download-progress', data);
+  }
+};
+
+// Stream a URL into destPath. Partial data is kept in `${destPath}.part` and
+// resumed with a Range request next time, so an interrupted download does not
+// start from zero.
+const downloadToFile = (url, destPath, taskId, fileName) => {
+  return new Promise((resolve, reject) => {
+    const partPath = `${destPath}.part`;
+    // A second task appending to the same .part would corrupt it
+    if (activePartFiles.has(partPath)) {
+      reject(new Error(`Already downloading ${fileName}`));
+      return;
+    }
+    activePartFiles.add(partPath);
+
+    let offset = 0;
+    try {
+      offset = fs.existsSync(partPath) ? fs.statSync(partPath).size : 0;
+    } catch {
+      offset = 0;
+    }
+
+    const request = net.request({ url, redirect: 'follow' });
+    if (offset > 0) {
+      request.setHeader('Range', `bytes=${offset}-`);
+    }
+    if (taskId) {
+      activeDownloads.set(taskId, { request, fileName });
+    }
+
+    let settled = false;
+    const finish = (err, result) => {
+      if (settled) return;
+      settled = true;
+      activePartFiles.delete(partPath);
+      if (taskId) activeDownloads.delete(taskId);
+      if (err) reject(err);
+      else resolve(result);
+    };
+
+    request.on('response', (response) => {
+      const status = response.statusCode;
+      if (status !== 200 && status !== 206) {
+        // 416: the part file already holds the whole resource
+        if (status === 416 && offset > 0) {
+          fs.move(partPath, destPath, { overwrite: true })
+            .then(() => finish(null, { size: offset }))
+            .catch(finish);
+          return;
+        }
+        finish(new Error(`Download failed with status ${status}`));
+        return;
+      }
+
+      // Server ignored our Range header, start over
+      if (status === 200) offset = 0;
+
+      const lengthHeader = response.headers['content-length'];
+      const contentLength = parseInt(Array.isArray(lengthHeader) ? lengthHeader[0] : lengthHeader, 10) || 0;
+      const total = contentLength > 0 ? offset + contentLength : 0;
+      let received = offset;
+      let lastSent = 0;
+
+      const file = fs.createWriteStream(partPath, { flags: offset > 0 ? 'a' : 'w' });
+      // Disk full, permission denied...
+      file.on('error', (err) => {
+        finish(err);
+        request.abort();
+      });
+
+      response.on('data', (chunk) => {
+        // Let the disk catch up before reading more
+        if (!file.write(chunk)) {
+          response.pause();
+          file.once('drain', () => response.resume());
+        }
+        received += chunk.length;
+        const now = Date.now();
+        if (now - lastSent > 250) {
+          lastSent = now;
+          sendDownloadProgress({
+            taskId,
+            fileName,
+            status: 'downloading',
+            received,
+            total,
+            progress: total > 0 ? received / total : 0
+          });
+        }
+      });
+
+      response.on('end', () => {
+        file.end(async () => {
+          if (settled) return;
+          try {
+            await fs.move(partPath, destPath, { overwrite: true });
+            finish(null, { size: received });
+          } catch (err) {
+            finish(err);
+          }
+        });
+      });
+
+      response.on('aborted', () => {
+        file.end();
+        finish(createAbortError());
+      });
+
+      response.on('error', (err) => {
+        file.end();
+        finish(err);
+      });
+    });
+
+    request.on('abort', () => finish(createAbortError()));
+    request.on('error', (err) => finish(err));
+    request.end();
+  });
+};
+
+app.whenReady().then(async () => {
+  // Serve the bundled frontend, and downloaded chapters and covers, to the renderer
+  protocol.handle(APP_PROTOCOL, handleAppRequest);
+  protocol.handle(CACHE_PROTOCOL, handleCacheRequest);
+  allowAppOrigin();
+
+  // Everything else (fetch, media streams, main-process downloads) is verified here:
+  // pinned certificates pass, unknown ones of the configured servers are confirmed by the user first
+  session.defaultSession.setCertificateVerifyProc((request, callback) => {
+    if (request.errorCode === 0) {
+      callback(-3); // Trusted by the system, use Chromium's result
+      return;
+    }
+    confirmCertificate(request.hostname, request.certificate, request.verificationResult)
+      .then(trusted => callback(trusted ? 0 : -3))
+      .catch(() => callback(-3));
+  });
 
-app.whenReady().then(() => {
   // IPC: Resolve URL (follow redirects)
   ipcMain.handle('resolve-url', async (event, targetUrl) => {
     return new Promise((resolve, reject) => {
@@ -153,14 +734,206 @@ app.whenReady().then(() => {
     }
   });
 
+  // IPC: Health check server addresses in parallel ([{ url, resolvedUrl, ok, latency }])
+  ipcMain.handle('probe-endpoints', async (event, { endpoints, timeoutMs }) => {
+    return Promise.all((endpoints || []).map(endpoint => probeEndpoint(endpoint, timeoutMs || 3000)));
+  });
+
+  // IPC: Set the addresses of the current server, the only hosts given CORS headers
+  ipcMain.handle('set-server-origins', async (event, urls) => {
+    serverOrigins = new Set((urls || []).map(toOrigin).filter(Boolean));
+    return [...serverOrigins];
+  });
+
+  // IPC: Select the server whose offline cache is used
+  ipcMain.handle('set-cache-server', async (event, serverUrl) => {
+    cacheServerKey = getServerKey(serverUrl);
+    await fs.ensureDir(getCacheDir());
+    return cacheServerKey;
+  });
+
+  // IPC: Whether the OS keychain can encrypt saved logins
+  ipcMain.handle('credentials-available', async () => {
+    return safeStorage.isEncryptionAvailable();
+  });
+
+  // IPC: Update the saved login of a server profile ({ username, password, refreshToken, serverUrl }, null removes a field)
+  ipcMain.handle('save-credential', async (event, { account, credential }) => {
+    if (!safeStorage.isEncryptionAvailable()) return { success: false, error: 'Encryption unavailable' };
+    try {
+      const { serverUrl, ...update } = credential || {};
+      // Only the origin is kept, derived here; renew-session checks its address against it
+      update.origin = serverUrl ? toOrigin(serverUrl) : undefined;
+      const record = await loadCredentialRecord(account);
+      if (update.origin && record && update.origin !== record.origin) {
+        // Secrets saved for another server are never carried over to a new origin
+        for (const field of ['password', 'refreshToken']) {
+          if (typeof update[field] !== 'string') update[field] = null;
+        }
+      }
+      await updateCredentialRecord(account, update);
+      return { success: true };
+    } catch (err) {
+      console.error('Save credential failed:', err);
+      return { success: false, error: err.message };
+    }
+  });
+
+  // IPC: Describe the saved login of a server profile without its secrets ({ username, canRenew } or null)
+  ipcMain.handle('load-credential', async (event, account) => {
+    const record = await loadCredentialRecord(account);
+    if (!record) return null;
+    return {
+      username: record.username || '',
+      canRenew: !!(record.refreshToken || (record.username && record.password))
+    };
+  });
+
+  // IPC: Renew the session of a server profile with its saved login ({ token, user } | { rejected } | { error })
+  ipcMain.handle('renew-session', async (event, { account, baseUrl }) => {
+    try {
+      return await renewSession(account, baseUrl);
+    } catch (err) {
+      console.error('Renew session failed:', err);
+      return { error: err.message };
+    }
+  });
+
+  // IPC: Forget the saved login of a server profile
+  ipcMain.handle('delete-credential', async (event, account) => {
+    const credentials = await readCredentials();
+    if (!(credentialKey(account) in credentials)) return { success: true };
+    delete credentials[credentialKey(account)];
+    await fs.outputJson(credentialsFile, credentials);
+    return { success: true };
+  });
+
+  // IPC: Download Chapter into the offline cache
+  ipcMain.handle('download-chapter', async (event, { url, fileName, taskId }) => {
+    const name = safeFileName(fileName);
+    if (!url || !name) {
+      return { success: false, error: 'Invalid download request' };
+    }
+
+    const destPath = path.join(getCacheDir(), name);
+    if (await fs.pathExists(destPath)) {
+      const stat = await fs.stat(destPath);
+      sendDownloadProgress({ taskId, fileName: name, status: 'completed', received: stat.size, total: stat.size, progress: 1 });
+      return { success: true, fileName: name, size: stat.size, cached: true };
+    }
+
+    await fs.ensureDir(getCacheDir());
+    sendDownloadProgress({ taskId, fileName: name, status: 'downloading', received: 0, total: 0, progress: 0 });
+
+    try {
+      const { size } = await downloadToFile(url, destPath, taskId, name);
+      sendDownloadProgress({ taskId, fileName: name, status: 'completed', received: size, total: size, progress: 1 });
+      return { success: true, fileName: name, size };
+    } catch (err) {
+      if (err.aborted) {
+        sendDownloadProgress({ taskId, fileName: name, status: 'paused' });
+        return { success: false, fileName: name, aborted: true };
+      }
+      console.error(`Download failed for ${name}:`, err);
+      sendDownloadProgress({ taskId, fileName: name, status: 'failed', error: err.message });
+      return { success: false, fileName: name, error: err.message };
+    }
+  });
+
+  // IPC: Cancel Download (the .part file is kept so it can be resumed)
+  ipcMain.handle('cancel-download', async (event, taskId) => {
+    const active = activeDownloads.get(taskId);
+    if (!active) return { success: false };
+    active.request.abort();
+    activeDownloads.delete(taskId);
+    return { success: true };
+  });
+
+  // IPC: Download Cover for offline display
+  ipcMain.handle('download-cover', async (event, { url, bookId, force }) => {
+    const name = safeFileName(bookId);
+    if (!url || !name) {
+      return { success: false, error: 'Invalid cover request' };
+    }
+
+    const destPath = path.join(getCoverDir(), `${name}.jpg`);
+    if (!force && await fs.pathExists(destPath)) {
+      return { success: true, path: destPath };
+    }
+
+    await fs.ensureDir(getCoverDir());
+    try {
+      // Covers are small, never resume a stale partial cover
+      await fs.remove(`${destPath}.part`);
+      await downloadToFile(url, destPath, null, name);
+      return { success: true, path: destPath };
+    } catch (err) {
+      console.error(`Cover download failed for ${name}:`, err);
+      return { success: false, error: err.message };
+    }
+  });
+
+  // IPC: Check which files are already cached
+  ipcMain.handle('check-cached', async (event, fileNames) => {
+    const result = {};
+    for (const fileName of fileNames || []) {
+      result[fileName] = await fs.pathExists(path.join(getCacheDir(), safeFileName(fileName)));
+    }
+    return result;
+  });
+
+  // IPC: Remove a cached file (and any partial download of it)
+  ipcMain.handle('remove-cached-file', async (event, fileName) => {
+    const name = safeFileName(fileName);
+    if (!name) return { success: false };
+    for (const [taskId, active] of activeDownloads) {
+      if (active.fileName === name) {
+        active.request.abort();
+        activeDownloads.delete(taskId);
+      }
+    }
+    await fs.remove(path.join(getCacheDir(), name));
+    await fs.remove(path.join(getCacheDir(), `${name}.part`));
+    return { success: true };
+  });
+
+  // IPC: List Cached Files (completed downloads only)
+  ipcMain.handle('list-cached-files', async () => {
+    const dir = getCacheDir();
+    if (!(await fs.pathExists(dir))) return [];
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files = [];
+    for (const entry of entries) {
+      if (!entry.isFile() || entry.name.endsWith('.part')) continue;
+      const stat = await fs.stat(path.join(dir, entry.name));
+      files.push({ fileName: entry.name, size: stat.size, mtime: stat.mtimeMs });
+    }
+    return files;
+  });
+
   // IPC: Clear Cache
   ipcMain.handle('clear-cache', async () => {
-    return { success: true };
+    for (const active of activeDownloads.values()) {
+      active.request.abort();
+    }
+    activeDownloads.clear();
+    try {
+      await fs.emptyDir(getCacheDir());
+      return { success: true };
+    } catch (err) {
+      console.error('Clear cache failed:', err);
+      return { success: false, error: err.message };
+    }
   });
 
-  // IPC: Get Cache Size
+  // IPC: Get Cache Size (bytes)
   ipcMain.handle('get-cache-size', async () => {
-    return 0;
+    try {
+      return await getDirSize(getCacheDir());
+    } catch (err) {
+      console.error('Get cache size failed:', err);
+      return 0;
+    }
   });
 
   // IPC: Open External Link
@@ -173,6 +946,43 @@ app.whenReady().then(() => {
     return app.getVersion();
   });
 
+  // IPC: Register Global Shortcuts ({ action: accelerator }, empty to disable)
+  ipcMain.handle('set-global-shortcuts', async (event, shortcuts) => {
+    globalShortcut.unregisterAll();
+    const failed = [];
+    for (const [action, accelerator] of Object.entries(shortcuts || {})) {
+      try {
+        const ok = globalShortcut.register(accelerator, () => {
+          if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('global-shortcut', action);
+          }
+        });
+        if (!ok) failed.push(action);
+      } catch (err) {
+        console.error(`Register global shortcut ${accelerator} failed:`, err);
+        failed.push(action);
+      }
+    }
+    return { success: failed.length === 0, failed };
+  });
+
+  // IPC: List pinned server certificates
+  ipcMain.handle('list-trusted-certificates', async () => {
+    return Object.entries(getTrustedCerts()).map(([host, cert]) => ({ host, ...cert }));
+  });
+
+  // IPC: Forget a pinned certificate, the next connection asks again
+  ipcMain.handle('remove-trusted-certificate', async (event, host) => {
+    delete getTrustedCerts()[host];
+    saveTrustedCerts();
+    for (const key of declinedCerts) {
+      if (key.startsWith(`${host}|`)) declinedCerts.delete(key);
+    }
+    await session.defaultSession.closeAllConnections();
+    return { success: true };
+  });
+
+  await migrateFileOriginStorage();
   createWindow();
 
   app.on('activate', function () {
@@ -180,6 +990,10 @@ app.whenReady().then(() => {
   });
 });
 
+app.on('will-quit', () => {
+  globalShortcut.unregisterAll();
+});
+
 app.on('window-all-closed', function () {
   if (process.platform !== 'darwin') app.quit();
 });
@@ -2,9 +2,20 @@ const { contextBridge, ipcRenderer } = require('electron');
 
 contextBridge.exposeInMainWorld('electronAPI', {
   resolveRedirect: (url) => ipcRenderer.invoke('resolve-redirect', url),
+  probeEndpoints: (endpoints, timeoutMs) => ipcRenderer.invoke('probe-endpoints', { endpoints, timeoutMs }),
+  listTrustedCertificates: () => ipcRenderer.invoke('list-trusted-certificates'),
+  removeTrustedCertificate: (host) => ipcRenderer.invoke('remove-trusted-certificate', host),
   clearCache: () => ipcRenderer.invoke('clear-cache'),
   getCacheSize: () => ipcRenderer.invoke('get-cache-size'),
+  setCacheServer: (serverUrl) => ipcRenderer.invoke('set-cache-server', serverUrl),
+  setServerOrigins: (urls) => ipcRenderer.invoke('set-server-origins', urls),
+  credentialsAvailable: () => ipcRenderer.invoke('credentials-available'),
+  saveCredential: (account, credential) => ipcRenderer.invoke('save-credential', { account, credential }),
+  loadCredential: (account) => ipcRenderer.invoke('load-credential', account),
+  deleteCredential: (account) => ipcRenderer.invoke('delete-credential', account),
+  renewSession: (account, baseUrl) => ipcRenderer.invoke('renew-session', { account, baseUrl }),
   downloadChapter: (url, fileName, taskId) => ipcRenderer.invoke('download-chapter', { url, fileName, taskId }),
+  cancelDownload: (taskId) => ipcRenderer.invoke('cancel-download', taskId),
   downloadCover: (url, bookId, force) => ipcRenderer.invoke('download-cover', { url, bookId, force }),
   checkCached: (fileNames) => ipcRenderer.invoke('check-cached', fileNames),
   removeCachedFile: (fileName) => ipcRenderer.invoke('remove-cached-file', fileName),
@@ -17,5 +28,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
   isElectron: true,
   listCachedFiles: () => ipcRenderer.invoke('list-cached-files'),
   openExternal: (url) => ipcRenderer.invoke('open-external', url),
-  getVersion: () => ipcRenderer.invoke('get-version')
+  getVersion: () => ipcRenderer.invoke('get-version'),
+  setGlobalShortcuts: (shortcuts) => ipcRenderer.invoke('set-global-shortcuts', shortcuts),
+  onGlobalShortcut: (callback) => {
+      const subscription = (event, action) => callback(action);
+      ipcRenderer.on('global-shortcut', subscription);
+      return () => ipcRenderer.removeListener('global-shortcut', subscription);
+  }
 });
@@ -1,5 +1,5 @@
 import React from 'react';
-import { HashRouter as Router, Routes, Route, Navigate, Outlet } from 'react-router-dom';
+import { HashRouter as Router, Routes, Route, Navigate, Outlet, useLocation } from 'react-router-dom';
 import Layout from './components/Layout';
 import AppInitializer from './components/AppInitializer';
 import LoginPage from './pages/LoginPage';
@@ -15,16 +15,25 @@ import LogsPage from './pages/LogsPage';
 import SettingsPage from './pages/SettingsPage';
 import WidgetPage from './pages/WidgetPage';
 import PluginsPage from './pages/PluginsPage';
+import DownloadsPage from './pages/DownloadsPage';
+import StatsPage from './pages/StatsPage';
 import { useAuthStore } from './store/authStore';
 
+// Send signed-out visitors to the login page, remembering where they were
+const LoginRedirect = () => {
+  const location = useLocation();
+  const from = location.pathname + location.search;
+  return <Navigate to={from === '/' ? '/login' : `/login?redirect=${encodeURIComponent(from)}`} />;
+};
+
 const ProtectedOutlet = () => {
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
-  return isAuthenticated ? <Outlet /> : <Navigate to="/login" />;
+  return isAuthenticated ? <Outlet /> : <LoginRedirect />;
 };
 
 const AdminRoute = ({ children }: { children: React.ReactNode }) => {
   const { isAuthenticated, user } = useAuthStore();
-  if (!isAuthenticated) return <Navigate to="/login" />;
+  if (!isAuthenticated) return <LoginRedirect />;
   if (user?.role !== 'admin') return <Navigate to="/" />;
   return <>{children}</>;
 };
@@ -42,6 +51,8 @@ function App() {
           {/* Main Layout Routes (Public & Protected mixed) */}
           <Route element={<Layout />}>
              <Route path="/settings" element={<SettingsPage />} />
+             <Route path="/downloads" element={<DownloadsPage />} />
+             <Route path="/stats" element={<StatsPage />} />
 
              {/* Protected Routes */}
              <Route element={<ProtectedOutlet />}>
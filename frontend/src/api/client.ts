@@ -3,12 +3,9 @@ import camelcaseKeys from 'camelcase-keys';
 import snakecaseKeys from 'snakecase-keys';
 import { useAuthStore } from '../store/authStore';
 import { safeStorage } from '../utils/storage';
-
-type ElectronApi = {
-  resolveRedirect: (url: string) => Promise<string>;
-};
-
-const getElectronApi = () => (window as Window & { electronAPI?: ElectronApi }).electronAPI;
+import { getElectronAPI } from '../utils/env';
+import { expireSession, getPendingRefresh, refreshSession } from './session';
+import { selectEndpoint } from './endpoints';
 
 // Initial base URL
 const API_BASE_URL = safeStorage.getItem('active_url') || safeStorage.getItem('server_url') || (import.meta.env.PROD ? '' : 'http://localhost:3000');
@@ -20,14 +17,16 @@ const apiClient = axios.create({
   },
 });
 
-apiClient.interceptors.request.use((config) => {
+apiClient.interceptors.request.use(async (config) => {
+  // Hold requests while the token is being refreshed
+  await getPendingRefresh()?.catch(() => null);
   const { token, activeUrl } = useAuthStore.getState();
 
   // Offline Mode Check
   // If we are on the downloads page, we should block API requests to avoid errors
   // EXCEPT for requests to local proxy or non-api endpoints if any
   const isOffline = !navigator.onLine;
-  const isDownloadsPage = window.location.pathname.startsWith('/downloads');
+  const isDownloadsPage = window.location.hash.startsWith('#/downloads');
   // Check if it's an API request (either absolute URL or relative to baseURL)
   const isApiRequest = (config.url?.startsWith('http') || (config.baseURL && config.baseURL.startsWith('http')));
 
@@ -52,8 +51,8 @@ apiClient.interceptors.request.use((config) => {
     config.headers.Authorization = `Bearer ${token}`;
   }
 
-  // Transform request data to snake_case
-  if (config.data && config.headers['Content-Type'] === 'application/json') {
+  // Transform request data to snake_case (retried requests already carry the serialized body)
+  if (config.data && typeof config.data === 'object' && config.headers['Content-Type'] === 'application/json') {
     config.data = snakecaseKeys(config.data, { deep: true });
   }
 
@@ -83,48 +82,48 @@ apiClient.interceptors.response.use(
   async (error) => {
     const originalRequest = error.config;
     
-    // Handle 401 Unauthorized
+    // Handle 401 Unauthorized: renew the token and replay the request once
     if (error.response?.status === 401 && !originalRequest._retry) {
-      useAuthStore.getState().logout();
-      window.location.href = '/login';
+      originalRequest._retry = true;
+
+      // Sent with a token that has been replaced meanwhile, just replay it
+      const { token } = useAuthStore.getState();
+      if (token && originalRequest.headers?.Authorization !== `Bearer ${token}`) {
+        return apiClient(originalRequest);
+      }
+
+      let newToken: string | null;
+      try {
+        newToken = await refreshSession();
+      } catch (refreshErr) {
+        // Server unreachable, keep the session for when it comes back
+        console.error('Token refresh failed', refreshErr);
+        return Promise.reject(error);
+      }
+      if (newToken) {
+        return apiClient(originalRequest);
+      }
+
+      expireSession();
       return Promise.reject(error);
     }
 
-    // Handle Network Error or Connection Refused (potentially redirect expired)
+    // Handle Network Error or Connection Refused (left the LAN, proxy down, redirect expired...)
     // Only in Electron environment where we manage serverUrl/activeUrl
-    const electronAPI = getElectronApi();
-    if (!error.response && !originalRequest._retry && electronAPI) {
+    if (!error.response && !originalRequest._retry && getElectronAPI() && !axios.isCancel(error)) {
       // Check for offline mode FIRST
       if (!navigator.onLine) {
           return Promise.reject(error);
       }
-      
-      const { serverUrl, setActiveUrl } = useAuthStore.getState();
-
-      // If we have a serverUrl and it's different or we want to re-verify
-      if (serverUrl) {
-        console.log('Network error, attempting to re-resolve server URL from:', serverUrl);
-        originalRequest._retry = true;
-        
-        try {
-           // Call Electron IPC to resolve again
-           const newUrl = await electronAPI.resolveRedirect(serverUrl);
-           
-           // In main.js, resolve-redirect returns the URL string directly
-           if (newUrl && typeof newUrl === 'string') {
-             console.log('Resolved new active URL:', newUrl);
-             
-             // Update store
-             setActiveUrl(newUrl);
-             
-             // Update request baseURL and retry
-             originalRequest.baseURL = newUrl;
-             
-             return apiClient(originalRequest);
-           }
-        } catch (resolveErr) {
-          console.error('Failed to re-resolve server URL', resolveErr);
-        }
+
+      console.log('Network error, health checking the server addresses');
+      originalRequest._retry = true;
+
+      // Fail over to the fastest address that still answers
+      const newUrl = await selectEndpoint();
+      if (newUrl) {
+        originalRequest.baseURL = newUrl;
+        return apiClient(originalRequest);
       }
     }
     
@@ -0,0 +1,76 @@
+import type { EndpointProbe } from '../types';
+import { useAuthStore } from '../store/authStore';
+import { getElectronAPI } from '../utils/env';
+
+const PROBE_TIMEOUT_MS = 3000;
+// Latencies this close are noise, the earlier (preferred) address wins
+const LATENCY_TOLERANCE_MS = 20;
+
+/** Candidate addresses of the current server, in order of preference */
+export const getEndpoints = () => {
+  const { endpoints, serverUrl } = useAuthStore.getState();
+  if (endpoints.length > 0) return endpoints;
+  return serverUrl ? [serverUrl] : [];
+};
+
+/**
+ * Tell the main process which hosts are this server, it answers CORS for them
+ * only (Electron only). Kept in sync with the auth store below.
+ */
+export const allowServerOrigins = async () => {
+  const api = getElectronAPI();
+  if (!api) return;
+  const { serverUrl, activeUrl } = useAuthStore.getState();
+  const urls = [...getEndpoints(), serverUrl, activeUrl].filter(Boolean);
+  await api.setServerOrigins(urls).catch(err => console.error('Failed to set server origins', err));
+};
+
+useAuthStore.subscribe((state, prev) => {
+  if (state.serverUrl !== prev.serverUrl || state.activeUrl !== prev.activeUrl || state.endpoints !== prev.endpoints) {
+    allowServerOrigins();
+  }
+});
+
+const pickFastest = (probes: EndpointProbe[]) => probes.reduce<EndpointProbe | null>((best, probe) => {
+  if (!probe.ok || probe.latency === null) return best;
+  if (!best || probe.latency < (best.latency ?? Infinity) - LATENCY_TOLERANCE_MS) return probe;
+  return best;
+}, null);
+
+/** Health check every candidate in parallel (Electron only) */
+export const probeEndpoints = async (endpoints = getEndpoints()): Promise<EndpointProbe[]> => {
+  const api = getElectronAPI();
+  if (!api || endpoints.length === 0) return [];
+  return api.probeEndpoints(endpoints, PROBE_TIMEOUT_MS);
+};
+
+const doSelect = async () => {
+  const best = pickFastest(await probeEndpoints());
+  if (!best) return null;
+  const { activeUrl, setActiveUrl } = useAuthStore.getState();
+  if (best.resolvedUrl !== activeUrl) {
+    console.log(`切换服务器地址: ${activeUrl} -> ${best.resolvedUrl} (${best.latency}ms)`);
+    setActiveUrl(best.resolvedUrl);
+  }
+  return best.resolvedUrl;
+};
+
+let selecting: Promise<string | null> | null = null;
+
+/**
+ * Switch `activeUrl` to the fastest reachable address of the server.
+ * Resolves the selected base URL, or null when none is reachable.
+ */
+export const selectEndpoint = () => {
+  if (!selecting) {
+    selecting = doSelect()
+      .catch(err => {
+        console.error('Endpoint health check failed', err);
+        return null;
+      })
+      .finally(() => {
+        selecting = null;
+      });
+  }
+  return selecting;
+};
@@ -0,0 +1,118 @@
+import type { User } from '../types';
+import { useAuthStore } from '../store/authStore';
+import { renewSavedSession } from '../utils/credentials';
+
+// Refresh this long before the access token expires
+const REFRESH_AHEAD_MS = 60 * 1000;
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+interface RefreshedSession {
+  token: string;
+  refreshToken?: string | null;
+  user?: User | null;
+}
+
+const getTokenExpiry = (token: string) => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Whether a JWT access token has (nearly) expired; unknown expiry counts as valid */
+export const isTokenExpired = (token: string | null) => {
+  if (!token) return false;
+  const expiresAt = getTokenExpiry(token);
+  return expiresAt !== null && expiresAt - Date.now() < 5000;
+};
+
+const postJson = (url: string, body: unknown) => fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+// Rejected outright (as opposed to the server being unreachable or failing)
+const isRejected = (status: number) => status === 400 || status === 401 || status === 403 || status === 404;
+
+const refreshWithToken = async (baseUrl: string, refreshToken: string): Promise<RefreshedSession | null> => {
+  const response = await postJson(`${baseUrl}/api/auth/refresh`, { refresh_token: refreshToken });
+  if (isRejected(response.status)) return null;
+  if (!response.ok) throw new Error(`Token refresh failed: ${response.status}`);
+  const data = await response.json();
+  return data.token ? { token: data.token, refreshToken: data.refresh_token ?? refreshToken } : null;
+};
+
+// The keychain login (Electron): renewed in the main process, which keeps the
+// refresh token or password and only hands back the access token
+const refreshWithSavedLogin = async (baseUrl: string): Promise<RefreshedSession | null> => {
+  const result = await renewSavedSession(baseUrl);
+  if (result.error) throw new Error(result.error);
+  return result.token ? { token: result.token, user: result.user } : null;
+};
+
+const doRefresh = async () => {
+  const { activeUrl, refreshToken, user, setAuth, setToken } = useAuthStore.getState();
+  let session = refreshToken ? await refreshWithToken(activeUrl, refreshToken) : null;
+  if (!session) session = await refreshWithSavedLogin(activeUrl);
+  if (!session) return null;
+  // Renewing at launch after a sign out signs in again, the user comes back with it
+  if (!user && session.user) {
+    setAuth(session.user, session.token, session.refreshToken);
+  } else {
+    setToken(session.token, session.refreshToken);
+  }
+  return session.token;
+};
+
+let refreshing: Promise<string | null> | null = null;
+
+/**
+ * Get a new access token. Concurrent callers share one refresh. Resolves null
+ * when the server rejects the session, and throws when it can't be reached so
+ * callers can keep the current session.
+ */
+export const refreshSession = () => {
+  if (!refreshing) {
+    refreshing = doRefresh().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+};
+
+/** The refresh in progress, requests wait for it instead of using the old token */
+export const getPendingRefresh = () => refreshing;
+
+/** Sign out after a failed refresh; logging in again returns to the current page */
+export const expireSession = () => {
+  const route = window.location.hash.replace(/^#/, '') || '/';
+  if (!route.startsWith('/login')) {
+    window.location.hash = `#/login?redirect=${encodeURIComponent(route)}`;
+  }
+  useAuthStore.getState().logout();
+};
+
+// Refresh ahead of expiry so long listening sessions never see a 401
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+const scheduleRefresh = (token: string | null) => {
+  clearTimeout(refreshTimer);
+  const expiresAt = token ? getTokenExpiry(token) : null;
+  if (expiresAt === null) return;
+  const delay = Math.max(0, expiresAt - Date.now() - REFRESH_AHEAD_MS);
+  if (delay > MAX_TIMER_MS) return;
+  refreshTimer = setTimeout(() => {
+    if (!navigator.onLine) return;
+    // A failure here is left to the next 401, the token may still be accepted
+    refreshSession().catch(err => console.warn('提前刷新登录状态失败', err));
+  }, delay);
+};
+
+scheduleRefresh(useAuthStore.getState().token);
+useAuthStore.subscribe((state, prev) => {
+  if (state.token !== prev.token) scheduleRefresh(state.token);
+});
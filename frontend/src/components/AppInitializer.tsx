@@ -4,6 +4,10 @@ import { useAuthStore } from '../store/authStore';
 import { Loader2 } from 'lucide-react';
 import logoImg from '../assets/logo.png';
 import { safeStorage } from '../utils/storage';
+import { getElectronAPI } from '../utils/env';
+import { loadCredential } from '../utils/credentials';
+import { allowServerOrigins, selectEndpoint } from '../api/endpoints';
+import { isTokenExpired, refreshSession } from '../api/session';
 
 type WindowWithElectron = {
   electronAPI?: unknown;
@@ -18,11 +22,16 @@ interface AppInitializerProps {
 const AppInitializer: React.FC<AppInitializerProps> = ({ children }) => {
   const [isInitializing, setIsInitializing] = useState(true);
   const [statusMessage, setStatusMessage] = useState('正在启动...');
-  const { setAuth, setActiveUrl, setServerUrl } = useAuthStore();
   const navigate = useNavigate();
   const location = useLocation();
   const hasInitialized = useRef(false);
   const isElectron = typeof window !== 'undefined' && !!(window as WindowWithElectron).electronAPI;
+  const serverUrl = useAuthStore(state => state.serverUrl);
+
+  // Point the Electron offline cache at the current server's directory
+  useEffect(() => {
+    getElectronAPI()?.setCacheServer(serverUrl).catch(err => console.error('Failed to select cache directory', err));
+  }, [serverUrl]);
 
   useEffect(() => {
     if (hasInitialized.current) return;
@@ -36,10 +45,9 @@ const AppInitializer: React.FC<AppInitializerProps> = ({ children }) => {
         return;
       }
 
-      // Check if we have saved credentials
-      const savedUsername = safeStorage.getItem('saved_username');
-      const savedPassword = safeStorage.getItem('saved_password');
       const serverUrl = safeStorage.getItem('server_url');
+      // Requests to the server need its CORS headers from the main process
+      await allowServerOrigins();
 
       // If we are already on the login page, skip auto-login
       if (location.pathname === '/login') {
@@ -47,97 +55,57 @@ const AppInitializer: React.FC<AppInitializerProps> = ({ children }) => {
         return;
       }
 
-      // Offline check: If offline, don't try to login, just stop initializing and let router decide
-      // (Router will redirect to login if protected route, or we can redirect to downloads if offline)
+      // Offline check: If offline, don't try to login, land on the offline library instead
       if (!navigator.onLine) {
           setIsInitializing(false);
-          // Optional: Redirect to downloads if purely offline?
-          // navigate('/downloads'); 
+          navigate('/downloads');
           return;
       }
 
-      // If no credentials or no server URL, we can't auto-login
-      if (!savedUsername || !savedPassword || !serverUrl) {
+      // Check if there is a saved login to renew the session with. The keychain
+      // secrets stay in the main process, it signs in and returns the token.
+      const credential = await loadCredential();
+
+      // If no saved login or no server URL, we can't auto-login
+      if (!credential?.canRenew || !serverUrl) {
         setIsInitializing(false);
         return;
       }
 
       try {
         setStatusMessage('正在连接服务器...');
-        console.log('Attempting auto-login with stored credentials...');
-
-        // Perform login request using the SOURCE serverUrl
-        // This bypasses the potentially stale 'active_url' and token
-        const loginUrl = `${serverUrl}/api/auth/login`;
-        
-        // We use fetch directly to avoid apiClient interceptors for this initial handshake
-        let response = await fetch(loginUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ username: savedUsername, password: savedPassword })
-        });
-
-        // Handle redirect (similar to LoginPage logic)
-        if (response.redirected) {
-          try {
-            console.log('Auto-login: Redirect detected to', response.url);
-            const baseUrl = response.url.replace(/\/api\/auth\/login\/?$/, '');
-            setActiveUrl(baseUrl);
-          } catch (e) {
-            console.error('Auto-login: Failed to parse redirect URL', e);
-          }
-        }
 
-        // Handle 404/Method Not Allowed caused by 302 redirect turning POST into GET
-        if (!response.ok && response.status === 404 && response.redirected) {
-          setStatusMessage('重定向中...');
-          console.log('Auto-login: Retrying POST to new location:', response.url);
-          response = await fetch(response.url, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ username: savedUsername, password: savedPassword })
-          });
-          
-          if (response.ok) {
-             const baseUrl = response.url.replace(/\/api\/auth\/login\/?$/, '');
-             setActiveUrl(baseUrl);
+        // Use the fastest reachable server address
+        // This bypasses the potentially stale 'active_url'
+        await selectEndpoint();
+
+        const { token } = useAuthStore.getState();
+        if (!token || isTokenExpired(token)) {
+          console.log('Attempting auto-login with the saved login...');
+          const renewed = await refreshSession();
+          if (!renewed) {
+            // Login failed (e.g., password changed or signed out elsewhere)
+            console.warn('Auto-login failed');
+            setIsInitializing(false);
+            navigate('/login');
+            return;
           }
-        }
-
-        if (response.ok) {
-          const data = await response.json();
-          const { token, user } = data;
-          
-          // Login successful!
           setStatusMessage('登录成功，正在进入...');
-          setAuth(user, token);
-          
-          // Ensure serverUrl is set (it should be, but just in case)
-          setServerUrl(serverUrl);
-          
-          // Allow the app to render
-          setIsInitializing(false);
-        } else {
-          // Login failed (e.g., password changed, server error)
-          console.warn('Auto-login failed:', response.status, response.statusText);
-          // We don't clear credentials here, just let the user go to login page
-          // But we should probably clear the auth state to force re-login UI
-          // useAuthStore.getState().logout(); // Optional: maybe too aggressive?
-          
-          setIsInitializing(false);
-          navigate('/login');
         }
+
+        // Allow the app to render
+        setIsInitializing(false);
       } catch (err) {
         console.error('Auto-login error:', err);
         // Network error or other issue
-        // Fallback to login page
+        // Fallback to the offline library if the server is unreachable, otherwise login page
         setIsInitializing(false);
-        navigate('/login');
+        navigate(navigator.onLine ? '/login' : '/downloads');
       }
     };
 
     initializeApp();
-  }, [isElectron, location.pathname, navigate, setActiveUrl, setAuth, setServerUrl]);
+  }, [isElectron, location.pathname, navigate]);
 
   if (isInitializing) {
     return (
@@ -1,11 +1,12 @@
-import React from 'react';
+import React, { useState } from 'react';
 import type { Book } from '../types';
-import { Play } from 'lucide-react';
+import { Play, ListPlus, Check } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
 import { getCoverUrl } from '../utils/image';
 import { toSolidColor, isLight, isTooLight } from '../utils/color';
 import ExpandableTitle from './ExpandableTitle';
+import { usePlayQueueStore } from '../store/playQueueStore';
 
 interface BookCardProps {
   book: Book;
@@ -16,6 +17,16 @@ interface BookCardProps {
 
 const BookCard: React.FC<BookCardProps> = ({ book, onClick, disableLink, coverShape = 'rect' }) => {
   const effectiveThemeColor = book.themeColor && !isTooLight(book.themeColor) ? book.themeColor : undefined;
+  const enqueueBook = usePlayQueueStore(state => state.enqueueBook);
+  const [queued, setQueued] = useState(false);
+
+  const handleEnqueue = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    enqueueBook(book);
+    setQueued(true);
+    setTimeout(() => setQueued(false), 1500);
+  };
 
   const content = (
     <>
@@ -40,6 +51,15 @@ const BookCard: React.FC<BookCardProps> = ({ book, onClick, disableLink, coverSh
           >
             <Play size={20} fill="currentColor" />
           </div>
+          {!disableLink && (
+            <button
+              onClick={handleEnqueue}
+              className="absolute top-2 right-2 p-1.5 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors"
+              title={queued ? '已加入播放队列' : '加入播放队列'}
+            >
+              {queued ? <Check size={14} /> : <ListPlus size={14} />}
+            </button>
+          )}
         </div>
       </div>
       <div className="mt-2 min-w-0">
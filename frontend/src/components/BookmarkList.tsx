@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bookmark as BookmarkIcon, Edit, Trash2, Check, X, FileDown } from 'lucide-react';
+import type { Book, Bookmark, Chapter } from '../types';
+import { useBookmarkStore } from '../store/bookmarkStore';
+import { usePlayerStore } from '../store/playerStore';
+import { bookmarksToMarkdown, downloadTextFile, formatPosition, sortBookmarks } from '../utils/bookmarks';
+
+interface BookmarkListProps {
+  book: Book;
+  chapters: Chapter[];
+  onJump?: () => void;
+}
+
+const BookmarkList: React.FC<BookmarkListProps> = ({ book, chapters, onJump }) => {
+  const bookmarks = useBookmarkStore(state => state.bookmarks[book.id]);
+  const fetchBookmarks = useBookmarkStore(state => state.fetchBookmarks);
+  const updateBookmark = useBookmarkStore(state => state.updateBookmark);
+  const removeBookmark = useBookmarkStore(state => state.removeBookmark);
+  const playChapter = usePlayerStore(state => state.playChapter);
+  const seekTo = usePlayerStore(state => state.seekTo);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [editNote, setEditNote] = useState('');
+
+  useEffect(() => {
+    if (!useBookmarkStore.getState().bookmarks[book.id]) {
+      fetchBookmarks(book.id);
+    }
+  }, [book.id, fetchBookmarks]);
+
+  const sorted = useMemo(() => sortBookmarks(bookmarks || [], chapters), [bookmarks, chapters]);
+  const chapterMap = useMemo(() => new Map(chapters.map(c => [c.id, c])), [chapters]);
+
+  const handleJump = (bookmark: Bookmark) => {
+    const chapter = chapterMap.get(bookmark.chapterId);
+    if (!chapter) return;
+    // Same chapter: the source does not change, so seek instead of reloading it
+    if (usePlayerStore.getState().currentChapter?.id === bookmark.chapterId) {
+      seekTo(bookmark.position);
+    } else {
+      playChapter(book, chapters, chapter, bookmark.position);
+    }
+    onJump?.();
+  };
+
+  const startEdit = (bookmark: Bookmark) => {
+    setEditingId(bookmark.id);
+    setEditTitle(bookmark.title);
+    setEditNote(bookmark.note || '');
+  };
+
+  const handleSave = async (bookmark: Bookmark) => {
+    if (!editTitle.trim()) return;
+    const ok = await updateBookmark(bookmark, { title: editTitle.trim(), note: editNote.trim() });
+    if (ok) {
+      setEditingId(null);
+    } else {
+      alert('保存书签失败');
+    }
+  };
+
+  const handleDelete = async (bookmark: Bookmark) => {
+    if (!window.confirm(`确定要删除书签「${bookmark.title}」吗？`)) return;
+    if (!(await removeBookmark(bookmark))) {
+      alert('删除书签失败');
+    }
+  };
+
+  const handleExport = () => {
+    downloadTextFile(bookmarksToMarkdown(book, chapters, sorted), `${book.title} - 书签.md`, 'text/markdown');
+  };
+
+  if (sorted.length === 0) {
+    return (
+      <div className="py-10 text-center text-sm text-slate-400">
+        <BookmarkIcon size={32} className="mx-auto mb-3 opacity-50" />
+        暂无书签
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <button
+          onClick={handleExport}
+          className="flex items-center gap-1 text-xs font-bold text-slate-400 hover:text-primary-600 transition-colors"
+        >
+          <FileDown size={14} />
+          导出 Markdown
+        </button>
+      </div>
+      {sorted.map(bookmark => (
+        <div
+          key={bookmark.id}
+          className="p-3 rounded-2xl border border-transparent hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-all"
+        >
+          {editingId === bookmark.id ? (
+            <div className="space-y-2">
+              <input
+                value={editTitle}
+                onChange={e => setEditTitle(e.target.value)}
+                className="w-full px-3 py-2 text-sm bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+                placeholder="书签名称"
+              />
+              <textarea
+                value={editNote}
+                onChange={e => setEditNote(e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 text-sm bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl outline-none focus:ring-2 focus:ring-primary-500 dark:text-white resize-none"
+                placeholder="笔记（可选）"
+              />
+              <div className="flex justify-end gap-1">
+                <button onClick={() => setEditingId(null)} className="p-2 text-slate-400 hover:text-slate-600 transition-colors" title="取消">
+                  <X size={16} />
+                </button>
+                <button onClick={() => handleSave(bookmark)} className="p-2 text-primary-600 hover:text-primary-700 transition-colors" title="保存">
+                  <Check size={16} />
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-start gap-3">
+              <div className="flex-1 min-w-0 cursor-pointer" onClick={() => handleJump(bookmark)}>
+                <p className="text-sm font-bold text-slate-900 dark:text-white truncate">{bookmark.title}</p>
+                <p className="text-[10px] sm:text-xs text-slate-400 font-medium mt-0.5 truncate">
+                  {chapterMap.get(bookmark.chapterId)?.title || '未知章节'} · {formatPosition(bookmark.position)}
+                </p>
+                {bookmark.note && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1.5 whitespace-pre-wrap line-clamp-3">{bookmark.note}</p>
+                )}
+              </div>
+              <div className="flex items-center shrink-0">
+                <button onClick={() => startEdit(bookmark)} className="p-2 text-slate-400 hover:text-primary-600 transition-colors" title="编辑">
+                  <Edit size={16} />
+                </button>
+                <button onClick={() => handleDelete(bookmark)} className="p-2 text-slate-400 hover:text-red-500 transition-colors" title="删除">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BookmarkList;
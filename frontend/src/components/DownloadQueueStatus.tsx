@@ -0,0 +1,65 @@
+import React from 'react';
+import { Pause, Play, X, Loader2 } from 'lucide-react';
+import { useDownloadStore } from '../store/downloadStore';
+
+interface DownloadQueueStatusProps {
+  bookId: string;
+  showTitle?: boolean;
+}
+
+const DownloadQueueStatus: React.FC<DownloadQueueStatusProps> = ({ bookId, showTitle = false }) => {
+  const queue = useDownloadStore(state => state.queues[bookId]);
+  const tasks = useDownloadStore(state => state.tasks);
+  const pauseQueue = useDownloadStore(state => state.pauseQueue);
+  const resumeQueue = useDownloadStore(state => state.resumeQueue);
+  const cancelQueue = useDownloadStore(state => state.cancelQueue);
+
+  if (!queue) return null;
+
+  const activeProgress = queue.active.reduce((sum, c) => sum + (tasks[c.id]?.progress || 0), 0);
+  const finished = queue.total - queue.pending.length - queue.active.length;
+  const percent = queue.total > 0 ? Math.round(((finished + activeProgress) / queue.total) * 100) : 0;
+  const isPaused = queue.status === 'paused';
+
+  return (
+    <div className="flex items-center gap-3 p-3 rounded-2xl bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800">
+      {isPaused ? (
+        <Pause size={16} className="text-amber-500 shrink-0" />
+      ) : (
+        <Loader2 size={16} className="text-primary-600 animate-spin shrink-0" />
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2 text-xs font-bold">
+          <span className="truncate text-slate-700 dark:text-slate-200">
+            {showTitle ? `${queue.book.title} · ` : ''}
+            {isPaused ? (queue.error || '已暂停') : '正在下载'} {finished}/{queue.total}
+            {queue.failed > 0 && <span className="text-red-500 ml-1">({queue.failed} 失败)</span>}
+          </span>
+          <span className="text-slate-400 shrink-0">{percent}%</span>
+        </div>
+        <div className="mt-1.5 h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+          <div
+            className={`h-full rounded-full transition-all ${isPaused ? 'bg-amber-500' : 'bg-primary-600'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      </div>
+      <button
+        onClick={() => isPaused ? resumeQueue(bookId) : pauseQueue(bookId)}
+        className="p-2 text-slate-400 hover:text-primary-600 transition-colors shrink-0"
+        title={isPaused ? '继续' : '暂停'}
+      >
+        {isPaused ? <Play size={16} /> : <Pause size={16} />}
+      </button>
+      <button
+        onClick={() => cancelQueue(bookId)}
+        className="p-2 text-slate-400 hover:text-red-500 transition-colors shrink-0"
+        title="取消"
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default DownloadQueueStatus;
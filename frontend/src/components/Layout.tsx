@@ -12,14 +12,23 @@ import {
   Database,
   Users,
   Terminal,
-  Puzzle
+  Puzzle,
+  Download,
+  BarChart3
 } from 'lucide-react';
 import { useAuthStore } from '../store/authStore';
 import { useTheme } from '../hooks/useTheme';
+import { useOfflineProgressSync } from '../hooks/useOfflineProgressSync';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useEndpointFailover } from '../hooks/useEndpointFailover';
+import { registerShortcutHandler } from '../utils/shortcuts';
 import { usePlayerStore } from '../store/playerStore';
 import apiClient from '../api/client';
+import { isElectron } from '../utils/env';
 import logoImg from '../assets/logo.png';
 import Player from './Player';
+import UpNextToast from './UpNextToast';
+import ServerSwitcher from './ServerSwitcher';
 
 type MenuItem = {
     icon: React.ReactElement;
@@ -84,7 +93,20 @@ const Layout: React.FC = () => {
   const user = useAuthStore(state => state.user);
   const logout = useAuthStore(state => state.logout);
   const hasCurrentChapter = usePlayerStore(state => !!state.currentChapter);
-  const setPlaybackSpeed = usePlayerStore(state => state.setPlaybackSpeed);
+  const applyDefaultSpeed = usePlayerStore(state => state.applyDefaultSpeed);
+
+  // Replay offline progress even when nothing is playing (Player adds the WS channel)
+  useOfflineProgressSync();
+
+  useKeyboardShortcuts();
+
+  // Switch between the server's LAN/WAN addresses
+  useEndpointFailover();
+
+  // SearchPage takes over focusSearch while mounted; elsewhere jump to it
+  React.useEffect(() => {
+    return registerShortcutHandler('focusSearch', () => navigate('/search'), true);
+  }, [navigate]);
 
   // Validate Token on Mount
   React.useEffect(() => {
@@ -124,12 +146,14 @@ const Layout: React.FC = () => {
     if (user && !isConnecting && !connectionError) {
       apiClient.get('/api/settings').then(res => {
         const settings = res.data;
-        if (settings.playback_speed) {
-          setPlaybackSpeed(settings.playback_speed);
+        // A default set on this device wins over the account-wide one
+        const speed = usePlayerStore.getState().deviceSpeed ?? settings.playback_speed;
+        if (speed) {
+          applyDefaultSpeed(speed);
         }
       }).catch(err => console.error('Failed to sync user settings', err));
     }
-  }, [user, setPlaybackSpeed, isConnecting, connectionError]);
+  }, [user, applyDefaultSpeed, isConnecting, connectionError]);
 
   React.useEffect(() => {
     refreshTheme();
@@ -227,6 +251,36 @@ const Layout: React.FC = () => {
                 />
               ))}
               
+              {/* Offline Downloads (Electron only) */}
+              {isElectron && (
+                <Link
+                  to="/downloads"
+                  onClick={() => setIsSidebarOpen(false)}
+                  className={`flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${
+                    location.pathname === '/downloads'
+                      ? 'bg-primary-600 text-white shadow-lg shadow-primary-500/30'
+                      : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'
+                  }`}
+                >
+                  <Download size={20} />
+                  <span className="font-medium">离线下载</span>
+                </Link>
+              )}
+
+              {/* Listening stats (recorded locally, so available offline too) */}
+              <Link
+                to="/stats"
+                onClick={() => setIsSidebarOpen(false)}
+                className={`flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${
+                  location.pathname === '/stats'
+                    ? 'bg-primary-600 text-white shadow-lg shadow-primary-500/30'
+                    : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'
+                }`}
+              >
+                <BarChart3 size={20} />
+                <span className="font-medium">收听统计</span>
+              </Link>
+
               {/* Settings (Always show) */}
               <Link
                 to="/settings"
@@ -244,6 +298,8 @@ const Layout: React.FC = () => {
           </nav>
 
           <div className="mt-auto pt-4 border-t border-slate-100 dark:border-slate-800">
+            {/* Server profiles (Electron only, the web build is tied to its origin) */}
+            {isElectron && <ServerSwitcher />}
             {user ? (
               <div className="flex items-center justify-between bg-slate-50 dark:bg-slate-800/50 p-3 rounded-2xl">
                 <div className="flex items-center gap-3 overflow-hidden">
@@ -326,6 +382,7 @@ const Layout: React.FC = () => {
 
         {/* Player - Moved inside the right-side container to prevent sidebar overlap */}
         {hasCurrentChapter && <Player />}
+        <UpNextToast />
       </div>
     </div>
   );
@@ -0,0 +1,111 @@
+import React from 'react';
+import { ListOrdered, ChevronUp, ChevronDown, Trash2, Play } from 'lucide-react';
+import type { QueueItem } from '../store/playQueueStore';
+import { usePlayQueueStore } from '../store/playQueueStore';
+import { getCoverUrl } from '../utils/image';
+
+interface PlayQueueListProps {
+  onPlay?: () => void;
+}
+
+const PlayQueueList: React.FC<PlayQueueListProps> = ({ onPlay }) => {
+  const items = usePlayQueueStore(state => state.items);
+  const continueSeries = usePlayQueueStore(state => state.continueSeries);
+  const remove = usePlayQueueStore(state => state.remove);
+  const move = usePlayQueueStore(state => state.move);
+  const clear = usePlayQueueStore(state => state.clear);
+  const setContinueSeries = usePlayQueueStore(state => state.setContinueSeries);
+  const playItem = usePlayQueueStore(state => state.playItem);
+
+  const handlePlay = async (item: QueueItem) => {
+    remove(item.id);
+    if (await playItem(item)) {
+      onPlay?.();
+    } else {
+      alert(`《${item.book.title}》无法播放`);
+    }
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('确定要清空播放队列吗？')) return;
+    clear();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between px-1">
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-500 dark:text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={continueSeries}
+            onChange={e => setContinueSeries(e.target.checked)}
+            className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+          />
+          队列播完后继续播放系列下一本
+        </label>
+        {items.length > 0 && (
+          <button
+            onClick={handleClear}
+            className="flex items-center gap-1 text-xs font-bold text-slate-400 hover:text-red-500 transition-colors"
+          >
+            <Trash2 size={14} />
+            清空
+          </button>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <div className="py-10 text-center text-sm text-slate-400">
+          <ListOrdered size={32} className="mx-auto mb-3 opacity-50" />
+          播放队列为空
+        </div>
+      ) : items.map((item, index) => (
+        <div
+          key={item.id}
+          className="group flex items-center gap-3 p-2 rounded-2xl hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-all"
+        >
+          <div className="relative w-10 h-10 shrink-0 cursor-pointer" onClick={() => handlePlay(item)}>
+            <img
+              src={getCoverUrl(item.book.coverUrl, item.book.libraryId, item.book.id)}
+              alt={item.book.title}
+              referrerPolicy="no-referrer"
+              className="w-full h-full rounded-lg object-cover bg-slate-100 dark:bg-slate-800"
+            />
+            <div className="absolute inset-0 rounded-lg bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+              <Play size={14} className="text-white" fill="currentColor" />
+            </div>
+          </div>
+          <div className="flex-1 min-w-0 cursor-pointer" onClick={() => handlePlay(item)}>
+            <p className="text-sm font-bold text-slate-900 dark:text-white truncate">{item.book.title}</p>
+            <p className="text-[10px] sm:text-xs text-slate-400 font-medium mt-0.5 truncate">
+              {item.chapter ? item.chapter.title : '整本书'}
+            </p>
+          </div>
+          <div className="flex items-center shrink-0">
+            <button
+              onClick={() => move(index, index - 1)}
+              disabled={index === 0}
+              className="p-1.5 text-slate-400 hover:text-primary-600 disabled:opacity-30 transition-colors"
+              title="上移"
+            >
+              <ChevronUp size={16} />
+            </button>
+            <button
+              onClick={() => move(index, index + 1)}
+              disabled={index === items.length - 1}
+              className="p-1.5 text-slate-400 hover:text-primary-600 disabled:opacity-30 transition-colors"
+              title="下移"
+            >
+              <ChevronDown size={16} />
+            </button>
+            <button onClick={() => remove(item.id)} className="p-1.5 text-slate-400 hover:text-red-500 transition-colors" title="移出队列">
+              <Trash2 size={16} />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PlayQueueList;
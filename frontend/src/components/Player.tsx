@@ -3,7 +3,32 @@ import { useLocation } from 'react-router-dom';
 import { usePlayerStore } from '../store/playerStore';
 import { useAuthStore } from '../store/authStore';
 import { useWebSocket } from '../hooks/useWebSocket';
+import { useOfflineProgressSync } from '../hooks/useOfflineProgressSync';
+import { useMediaSession } from '../hooks/useMediaSession';
+import { useSleepTimer } from '../hooks/useSleepTimer';
+import { useListeningStats } from '../hooks/useListeningStats';
+import { useGaplessPlayback } from '../hooks/useGaplessPlayback';
+import { useVolumeGain } from '../hooks/useVolumeGain';
+import { useAudioProcessing } from '../hooks/useAudioProcessing';
+import { useSentenceRepeat } from '../hooks/useSentenceRepeat';
+import { useWaveform } from '../hooks/useWaveform';
+import { useSubChapters } from '../hooks/useSubChapters';
+import { useSubChapterStore } from '../store/subChapterStore';
+import { findSubChapterIndex } from '../utils/subChapters';
+import { useUserAudioEffects } from '../store/audioEffectsStore';
+import type { AudioEffects } from '../store/audioEffectsStore';
+import { usePlaybackProfileStore } from '../store/playbackProfileStore';
+import { useSleepTimerStore } from '../store/sleepTimerStore';
+import { usePlayQueueStore, skipToNext } from '../store/playQueueStore';
+import { useRepeatStore, getActiveLoop } from '../store/repeatStore';
+import { registerShortcutHandler } from '../utils/shortcuts';
+import { useProgressQueueStore } from '../store/progressQueueStore';
+import { useDownloadStore } from '../store/downloadStore';
+import { isCachedSource } from '../utils/download';
+import { isElectron } from '../utils/env';
 import apiClient from '../api/client';
+import { expireSession, isTokenExpired, refreshSession } from '../api/session';
+import { selectEndpoint } from '../api/endpoints';
 import { FastAverageColor } from 'fast-average-color';
 import type { Chapter } from '../types';
 import { 
@@ -21,14 +46,43 @@ import {
   RotateCcw,
   RotateCw,
   Zap,
+  AudioLines,
   ArrowLeft,
   ListMusic,
+  ListOrdered,
+  Repeat,
+  Repeat1,
   X,
-  Check
+  Check,
+  Bookmark as BookmarkIcon
 } from 'lucide-react';
+import BookmarkList from './BookmarkList';
+import PlayQueueList from './PlayQueueList';
+import SpeedControl from './SpeedControl';
+import { MAX_PLAYBACK_SPEED, MIN_PLAYBACK_SPEED, PLAYBACK_SPEED_STEP, formatSpeed, scaleBySpeed } from '../utils/playbackSpeed';
+import SubChapterList from './SubChapterList';
+import { formatPosition } from '../utils/bookmarks';
+import { useBookmarkStore } from '../store/bookmarkStore';
 import { getCoverUrl } from '../utils/image';
 import { setAlpha, toSolidColor, isLight, isTooLight } from '../utils/color';
 
+interface ProgressMarker {
+  time: number;
+  title: string;
+  type: 'bookmark' | 'intro' | 'outro' | 'chapter' | 'loop';
+}
+
+// Waveforms are only worth the extra download for long single files
+const WAVEFORM_MIN_DURATION = 20 * 60;
+
+const MARKER_COLORS: Record<ProgressMarker['type'], string> = {
+  bookmark: 'bg-amber-400',
+  intro: 'bg-slate-500 dark:bg-slate-400',
+  outro: 'bg-slate-500 dark:bg-slate-400',
+  chapter: 'bg-white/80 dark:bg-slate-300/80',
+  loop: 'bg-emerald-500'
+};
+
 interface ProgressBarProps {
   isMini?: boolean;
   isSeeking: boolean;
@@ -40,6 +94,12 @@ interface ProgressBarProps {
   onSeek: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onSeekStart: () => void;
   onSeekEnd: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  markers?: ProgressMarker[];
+  waveform?: number[] | null;
+  // Fallback tooltip title when no marker or sub-chapter is under the pointer
+  title?: string;
+  // A/B segment being repeated, open-ended until B is set
+  loop?: { start: number; end: number | null } | null;
 }
 
 const ProgressBar: React.FC<ProgressBarProps> = ({ 
@@ -52,8 +112,13 @@ const ProgressBar: React.FC<ProgressBarProps> = ({
   themeColor,
   onSeek,
   onSeekStart,
-  onSeekEnd
+  onSeekEnd,
+  markers = [],
+  waveform,
+  title,
+  loop
 }) => {
+  const [hoverRatio, setHoverRatio] = useState<number | null>(null);
   const displayTime = isSeeking ? seekTime : currentTime;
   const playedPercent = (Number.isFinite(duration) && duration > 0) ? (displayTime / duration) * 100 : 0;
   const bufferedPercent = (Number.isFinite(duration) && duration > 0) ? (bufferedTime / duration) * 100 : 0;
@@ -63,12 +128,67 @@ const ProgressBar: React.FC<ProgressBarProps> = ({
 
   const barColor = effectiveThemeColor ? toSolidColor(effectiveThemeColor) : undefined;
   const shadowColor = effectiveThemeColor ? setAlpha(effectiveThemeColor, 0.4) : undefined;
-  
+  const hasDuration = Number.isFinite(duration) && duration > 0;
+  const showWaveform = !isMini && !!waveform && waveform.length > 0;
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (isMini || !hasDuration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setHoverRatio(Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1));
+  };
+
+  // Marker near the pointer first, then the sub-chapter it falls in
+  const getHoverTitle = (time: number) => {
+    const tolerance = duration * 0.01;
+    const near = markers.find(m => m.type !== 'chapter' && Math.abs(m.time - time) <= tolerance);
+    if (near) return near.title;
+    const section = markers
+      .filter(m => m.type === 'chapter' && m.time <= time)
+      .sort((a, b) => b.time - a.time)[0];
+    return section?.title ?? title;
+  };
+
+  const hoverTime = hoverRatio !== null ? hoverRatio * duration : null;
+  const hoverTitle = hoverTime !== null ? getHoverTitle(hoverTime) : undefined;
+
   return (
-    <div className={`relative group/progress ${isMini ? 'flex-1 w-full h-3 sm:h-2' : 'w-full h-4'} flex items-center select-none touch-none`}>
+    <div
+      className={`relative group/progress ${isMini ? 'flex-1 w-full h-3 sm:h-2' : showWaveform ? 'w-full h-10' : 'w-full h-4'} flex items-center select-none touch-none`}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setHoverRatio(null)}
+    >
+      {/* Hover tooltip */}
+      {hoverTime !== null && (
+        <div
+          className="absolute bottom-full mb-2 -translate-x-1/2 z-40 px-2 py-1 rounded-lg bg-slate-900/90 text-white text-[10px] sm:text-xs font-medium whitespace-nowrap max-w-[240px] truncate pointer-events-none"
+          style={{ left: `${(hoverRatio ?? 0) * 100}%` }}
+        >
+          {formatPosition(hoverTime)}{hoverTitle ? ` · ${hoverTitle}` : ''}
+        </div>
+      )}
+
+      {/* Waveform preview */}
+      {showWaveform && (
+        <div className="absolute inset-0 flex items-center gap-px pointer-events-none">
+          {waveform.map((level, index) => {
+            const played = ((index + 0.5) / waveform.length) * 100 <= playedPercent;
+            return (
+              <div
+                key={index}
+                className={`flex-1 rounded-full ${played ? (!barColor ? 'bg-primary-600' : '') : 'bg-slate-300 dark:bg-slate-700'}`}
+                style={{
+                  height: `${Math.max(level * 100, 8)}%`,
+                  backgroundColor: played ? barColor : undefined
+                }}
+              />
+            );
+          })}
+        </div>
+      )}
+
       {/* Track Background */}
       <div 
-        className={`absolute left-0 right-0 top-1/2 -translate-y-1/2 ${isMini ? 'h-1' : 'h-1.5'} bg-slate-300 dark:bg-slate-900 rounded-full overflow-hidden`}
+        className={`absolute left-0 right-0 top-1/2 -translate-y-1/2 ${isMini ? 'h-1' : 'h-1.5'} bg-slate-300 dark:bg-slate-900 rounded-full overflow-hidden ${showWaveform ? 'opacity-0' : ''}`}
       >
         {/* Buffered Bar */}
         <div 
@@ -86,6 +206,26 @@ const ProgressBar: React.FC<ProgressBarProps> = ({
         />
       </div>
 
+      {/* A/B loop segment */}
+      {!isMini && hasDuration && loop && (
+        <div
+          className={`absolute top-1/2 -translate-y-1/2 z-0 rounded-full bg-emerald-500/20 pointer-events-none ${showWaveform ? 'h-full' : 'h-3'}`}
+          style={{
+            left: `${Math.min((loop.start / duration) * 100, 100)}%`,
+            right: `${100 - Math.min(((loop.end ?? duration) / duration) * 100, 100)}%`
+          }}
+        />
+      )}
+
+      {/* Markers: bookmarks, skip boundaries, sub-chapters and loop points */}
+      {!isMini && hasDuration && markers.map((marker, index) => (
+        <div
+          key={`${marker.type}-${index}`}
+          className={`absolute top-1/2 -translate-y-1/2 z-10 w-0.5 rounded-full pointer-events-none ${showWaveform ? 'h-full' : 'h-3'} ${MARKER_COLORS[marker.type]}`}
+          style={{ left: `${Math.min((marker.time / duration) * 100, 100)}%` }}
+        />
+      ))}
+
       {/* Thumb / Handle */}
       <div 
         className={`absolute top-1/2 -translate-y-1/2 z-20 w-3 h-3 bg-white rounded-full shadow-md transition-transform duration-100 ease-out pointer-events-none ${isSeeking ? 'scale-150' : 'scale-100'}`}
@@ -133,7 +273,6 @@ const Player: React.FC = () => {
     duration, 
     setCurrentTime, 
     setDuration,
-    nextChapter,
     prevChapter,
     playbackSpeed,
     setPlaybackSpeed,
@@ -149,10 +288,53 @@ const Player: React.FC = () => {
     setIsCollapsed,
     isSeriesEditing
   } = usePlayerStore();
+  const preservesPitch = usePlayerStore(state => state.preservesPitch);
+  // The element's rate, the only place it is set: the chosen speed plus any silence speed-up
+  const playbackRate = usePlayerStore(state => state.playbackSpeed * state.silenceRateBoost);
 
-  const { sendProgress: wsSendProgress } = useWebSocket();
+  const { isConnected: isWsConnected, sendProgress: wsSendProgress } = useWebSocket();
+  const enqueueProgress = useProgressQueueStore(state => state.enqueue);
+  useOfflineProgressSync(wsSendProgress, isWsConnected);
 
   const audioRef = useRef<HTMLAudioElement>(null);
+  useMediaSession(audioRef);
+  useSleepTimer(audioRef);
+  useListeningStats(audioRef);
+  useVolumeGain(audioRef);
+  useAudioProcessing(audioRef);
+  useSentenceRepeat(audioRef);
+  const repeatMode = useRepeatStore(state => state.repeatMode);
+  const cycleRepeatMode = useRepeatStore(state => state.cycleRepeatMode);
+  const abLoop = useRepeatStore(state => state.abLoop);
+  const markLoopPoint = useRepeatStore(state => state.markLoopPoint);
+  const clearLoop = useRepeatStore(state => state.clearLoop);
+  const sentenceRepeat = useRepeatStore(state => state.sentenceRepeat);
+  const sentenceRepeatCount = useRepeatStore(state => state.sentenceRepeatCount);
+  const setSentenceRepeat = useRepeatStore(state => state.setSentenceRepeat);
+  const setSentenceRepeatCount = useRepeatStore(state => state.setSentenceRepeatCount);
+  const { effects: audioEffects, setEffect: setAudioEffect } = useUserAudioEffects();
+
+  // Keyboard shortcuts for playback
+  useEffect(() => {
+    const seekBy = (offset: number) => {
+      const { currentTime: time, seekTo } = usePlayerStore.getState();
+      seekTo(Math.max(0, time + offset));
+    };
+    const changeSpeed = (delta: number) => {
+      const { playbackSpeed: speed, setPlaybackSpeed: setSpeed } = usePlayerStore.getState();
+      setSpeed(speed + delta);
+    };
+    const unregister = [
+      registerShortcutHandler('playPause', () => usePlayerStore.getState().togglePlay()),
+      registerShortcutHandler('seekBackward', () => seekBy(-15)),
+      registerShortcutHandler('seekForward', () => seekBy(15)),
+      registerShortcutHandler('speedDown', () => changeSpeed(-0.25)),
+      registerShortcutHandler('speedUp', () => changeSpeed(0.25)),
+      registerShortcutHandler('prevChapter', () => usePlayerStore.getState().prevChapter()),
+      registerShortcutHandler('nextChapter', () => skipToNext())
+    ];
+    return () => unregister.forEach(fn => fn());
+  }, []);
   const location = useLocation();
   const [isMuted, setIsMuted] = useState(false);
   const [showVolumeControl, setShowVolumeControl] = useState(false);
@@ -160,6 +342,15 @@ const Player: React.FC = () => {
   const [showSleepTimer, setShowSleepTimer] = useState(false);
   const volumeControlRef = useRef<HTMLDivElement>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [showBookmarks, setShowBookmarks] = useState(false);
+  const [showQueue, setShowQueue] = useState(false);
+  const queueLength = usePlayQueueStore(state => state.items.length);
+  const [bookmarkTitle, setBookmarkTitle] = useState('');
+  const [bookmarkNote, setBookmarkNote] = useState('');
+  const [bookmarkPosition, setBookmarkPosition] = useState(0);
+  const playerChapters = usePlayerStore(state => state.chapters);
+  const addBookmark = useBookmarkStore(state => state.addBookmark);
+  const fetchBookmarks = useBookmarkStore(state => state.fetchBookmarks);
   const [currentGroupIndex, setCurrentGroupIndex] = useState(0);
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -176,6 +367,9 @@ const Player: React.FC = () => {
   const [customMinutes, setCustomMinutes] = useState('');
   const [editSkipIntro, setEditSkipIntro] = useState(0);
   const [editSkipOutro, setEditSkipOutro] = useState(0);
+  const [editSpeed, setEditSpeed] = useState(1);
+  const [editGain, setEditGain] = useState(1);
+  const [saveForNarrator, setSaveForNarrator] = useState(false);
 
   const [isDark, setIsDark] = useState(() => document.documentElement.classList.contains('dark'));
 
@@ -226,8 +420,30 @@ const Player: React.FC = () => {
     });
   }, [currentBook]);
 
+  const openSettings = () => {
+    const { playbackSpeed: speed, volumeGain } = usePlayerStore.getState();
+    setEditSpeed(speed);
+    setEditGain(volumeGain);
+    setSaveForNarrator(false);
+    setShowSettings(true);
+  };
+
   const handleSaveSettings = async () => {
     if (!currentBook) return;
+    // Speed and gain are kept on this device, skip values also go to the server below
+    const { saveProfile } = usePlaybackProfileStore.getState();
+    saveProfile('book', currentBook.id, { speed: editSpeed, gain: editGain });
+    if (saveForNarrator && currentBook.narrator) {
+      saveProfile('narrator', currentBook.narrator, {
+        speed: editSpeed,
+        gain: editGain,
+        skipIntro: editSkipIntro,
+        skipOutro: editSkipOutro
+      });
+    }
+    setPlaybackSpeed(editSpeed);
+    usePlayerStore.setState({ volumeGain: editGain });
+
     try {
       await apiClient.patch(`/api/books/${currentBook.id}`, {
         skipIntro: editSkipIntro,
@@ -271,10 +487,11 @@ const Player: React.FC = () => {
     return g;
   }, [currentChapters]);
 
-  const [sleepTimer, setSleepTimer] = useState<number | null>(null);
-  const sleepTimerEndTimeRef = useRef<number | null>(null);
+  const sleepTimerMode = useSleepTimerStore(state => state.mode);
+  const sleepTimerRemaining = useSleepTimerStore(state => state.remaining);
+  const sleepTimerChaptersLeft = useSleepTimerStore(state => state.chaptersLeft);
+  const { startTimer: startSleepTimer, startChapterTimer, cancel: cancelSleepTimer } = useSleepTimerStore();
   const progressTimerRef = useRef<{ ws: ReturnType<typeof setInterval>; http: ReturnType<typeof setInterval> } | null>(null);
-  const sleepTimerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const timerMenuRef = useRef<HTMLDivElement>(null);
 
   const [error, setError] = useState<string | null>(null);
@@ -286,9 +503,32 @@ const Player: React.FC = () => {
   const [seekOffset, setSeekOffset] = useState<number | null>(null);
   const isInitialLoadRef = useRef(true);
   const preloadAudioRef = useRef<HTMLAudioElement | null>(null);
+  const gaplessPlayback = usePlayerStore(state => state.gaplessPlayback);
+  const { maybeStartCrossfade, startHandoff } = useGaplessPlayback(audioRef, preloadAudioRef);
+  // Chapter whose cached file failed to play, it falls back to network streaming
+  const [localFailedChapterId, setLocalFailedChapterId] = useState<string | null>(null);
+  const getLocalSource = useDownloadStore(state => state.getLocalSource);
+  // Re-resolve sources when downloads change
+  const downloadedBooks = useDownloadStore(state => state.books);
+
+  // A stream keeps the token and server address it started with, so a token refresh
+  // or an address switch mid-chapter doesn't reload it
+  const [streamAuth, setStreamAuth] = useState({ chapterId: currentChapter?.id, token, baseUrl: API_BASE_URL });
+  if (streamAuth.chapterId !== currentChapter?.id || (!streamAuth.token && token)) {
+    setStreamAuth({ chapterId: currentChapter?.id, token, baseUrl: API_BASE_URL });
+  }
+  const isStreamCurrent = streamAuth.chapterId === currentChapter?.id;
+  const streamToken = isStreamCurrent ? streamAuth.token : token;
+  const streamBaseUrl = isStreamCurrent ? streamAuth.baseUrl : API_BASE_URL;
 
   const getStreamUrl = useCallback((chapterId: string) => {
-    let url = `${API_BASE_URL}/api/stream/${chapterId}?token=${token}`;
+    // Local first: downloaded chapters are served from the ting-cache:// protocol
+    const localUrl = chapterId !== localFailedChapterId ? getLocalSource(chapterId) : null;
+    if (localUrl) {
+      return localUrl;
+    }
+
+    let url = `${streamBaseUrl}/api/stream/${chapterId}?token=${streamToken}`;
     if (shouldTranscode) {
       url += '&transcode=mp3';
     }
@@ -301,7 +541,68 @@ const Player: React.FC = () => {
       url += `&retry=${retryCount}`;
     }
     return url;
-  }, [API_BASE_URL, token, shouldTranscode, seekOffset, retryCount]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [streamBaseUrl, streamToken, shouldTranscode, seekOffset, retryCount, localFailedChapterId, getLocalSource, downloadedBooks]);
+
+  // Waveform preview for long single files
+  const showWaveform = usePlayerStore(state => state.showWaveform);
+  const waveform = useWaveform(
+    currentChapter?.id,
+    currentChapter ? getStreamUrl(currentChapter.id) : null,
+    showWaveform && !shouldTranscode && duration >= WAVEFORM_MIN_DURATION
+  );
+
+  // Embedded chapters of the playing file
+  const subChapters = useSubChapters(currentChapter);
+  const knownSubChapters = useSubChapterStore(state => state.subChapters);
+  const currentSubChapter = subChapters[findSubChapterIndex(subChapters, currentTime)];
+
+  const bookBookmarks = useBookmarkStore(state => currentBook ? state.bookmarks[currentBook.id] : undefined);
+  const progressMarkers = React.useMemo(() => {
+    const markers: ProgressMarker[] = subChapters.map(sub => ({ time: sub.start, title: sub.title, type: 'chapter' }));
+    markers.push(...(bookBookmarks || [])
+      .filter(b => b.chapterId === currentChapter?.id)
+      .map(b => ({ time: b.position, title: b.title, type: 'bookmark' as const })));
+    if (currentBook?.skipIntro) {
+      markers.push({ time: currentBook.skipIntro, title: '片头结束', type: 'intro' });
+    }
+    if (currentBook?.skipOutro && duration > currentBook.skipOutro) {
+      markers.push({ time: duration - currentBook.skipOutro, title: '片尾开始', type: 'outro' });
+    }
+    if (abLoop && abLoop.chapterId === currentChapter?.id) {
+      markers.push({ time: abLoop.start, title: 'A 点', type: 'loop' });
+      if (abLoop.end !== null) markers.push({ time: abLoop.end, title: 'B 点', type: 'loop' });
+    }
+    return markers;
+  }, [subChapters, bookBookmarks, currentChapter?.id, currentBook?.skipIntro, currentBook?.skipOutro, duration, abLoop]);
+  const chapterLoop = abLoop && abLoop.chapterId === currentChapter?.id ? abLoop : null;
+
+  // Seek the current chapter. Transcoded streams have no Range support, they are
+  // reloaded from the server at the new position (FFmpeg -ss) instead
+  const seekAudio = (time: number) => {
+    const audio = audioRef.current;
+    if (audio && shouldTranscode) {
+      if (seekOffset === time) {
+        // Already streaming from there, the start of the stream is the target
+        audio.currentTime = 0;
+      } else {
+        setSeekOffset(time);
+      }
+      isInitialLoadRef.current = false;
+    } else if (audio) {
+      audio.currentTime = time;
+    }
+    setCurrentTime(time);
+  };
+
+  // Jumps requested through the store, e.g. next/prev between embedded chapters
+  const seekRequest = usePlayerStore(state => state.seekRequest);
+  useEffect(() => {
+    if (seekRequest === null) return;
+    seekAudio(seekRequest);
+    usePlayerStore.getState().clearSeekRequest();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [seekRequest]);
 
   // Fetch settings for auto_preload
   useEffect(() => {
@@ -320,6 +621,7 @@ const Player: React.FC = () => {
 
       setAutoPreload(!!ap);
       setAutoCache(!!ac);
+      useSleepTimerStore.getState().setDefaultMinutes(res.data.sleepTimerDefault ?? 0);
     }).catch(err => console.error('Failed to fetch settings', err));
   }, []);
 
@@ -431,7 +733,7 @@ const Player: React.FC = () => {
 
   // Preload and Server-side Cache next chapter logic
   useEffect(() => {
-    if ((!autoPreload && !autoCache) || !currentChapter || !currentBook) return;
+    if ((!autoPreload && !autoCache && !gaplessPlayback) || !currentChapter || !currentBook) return;
     
     // Find next chapter index
     apiClient.get<Chapter[]>(`/api/books/${currentBook.id}/chapters`).then(res => {
@@ -440,17 +742,19 @@ const Player: React.FC = () => {
       if (currentIndex !== -1 && currentIndex < chapters.length - 1) {
         const nextChapter = chapters[currentIndex + 1];
         
-        // 1. Auto Preload (Memory)
-        if (autoPreload) {
+        // 1. Auto Preload (Memory), also needed for gapless transitions
+        if (autoPreload || gaplessPlayback) {
           const nextSrc = getStreamUrl(nextChapter.id);
           if (!preloadAudioRef.current) {
             preloadAudioRef.current = new Audio();
             preloadAudioRef.current.preload = 'auto';
+            preloadAudioRef.current.crossOrigin = 'anonymous';
           }
           
           if (preloadAudioRef.current.src !== nextSrc) {
             console.log('Preloading next chapter:', nextChapter.title);
             preloadAudioRef.current.src = nextSrc;
+            preloadAudioRef.current.dataset.chapterId = nextChapter.id;
             preloadAudioRef.current.load();
           }
         }
@@ -464,7 +768,7 @@ const Player: React.FC = () => {
         }
       }
     }).catch(err => console.error('Preload failed', err));
-  }, [currentChapter, autoPreload, autoCache, currentBook, getStreamUrl]);
+  }, [currentChapter, autoPreload, autoCache, gaplessPlayback, currentBook, getStreamUrl]);
 
   // Handle Skip Intro and Outro
   const handleTimeUpdate = () => {
@@ -522,11 +826,18 @@ const Player: React.FC = () => {
       isInitialLoadRef.current = false;
     }
 
+    // Jump back to A once playback passes B
+    const loop = getActiveLoop(currentChapter?.id);
+    if (loop && loop.end !== null && time >= loop.end) {
+      seekAudio(loop.start);
+      return;
+    }
+
     // Handle Skip Outro
     if (currentBook?.skipOutro && duration > 0) {
       const minChapterDuration = (currentBook.skipIntro || 0) + currentBook.skipOutro + 10;
       if (duration > minChapterDuration && (duration - time) <= currentBook.skipOutro) {
-        nextChapter();
+        advanceChapter();
       }
     }
   };
@@ -551,6 +862,8 @@ const Player: React.FC = () => {
       }
       setBufferedTime(currentRangeEnd);
     }
+
+    maybeStartCrossfade();
   };
 
   const isPlayingRef = useRef(isPlaying);
@@ -558,56 +871,39 @@ const Player: React.FC = () => {
     isPlayingRef.current = isPlaying;
   }, [isPlaying]);
 
-  // Handle Sleep Timer Countdown
-  useEffect(() => {
-    if (sleepTimer === null || sleepTimer <= 0 || !isPlaying || !sleepTimerEndTimeRef.current) return;
-
-    // Clear any existing interval
-    if (sleepTimerIntervalRef.current) {
-      clearInterval(sleepTimerIntervalRef.current);
+  // Start the A/B segment or the whole chapter over instead of moving on
+  const restartForRepeat = () => {
+    const audio = audioRef.current;
+    const loop = getActiveLoop(currentChapter?.id);
+    if (!audio || (!loop && useRepeatStore.getState().repeatMode !== 'chapter')) return false;
+    const start = loop ? loop.start : (currentBook?.skipIntro || 0);
+    seekAudio(start);
+    if (audio.paused && isPlayingRef.current) {
+      audio.play().catch(err => console.error('重复播放失败', err));
     }
+    return true;
+  };
 
-    // Set up new interval to update remaining time based on end time
-    const interval = setInterval(() => {
-      if (sleepTimerEndTimeRef.current) {
-        const remaining = Math.max(0, Math.floor((sleepTimerEndTimeRef.current - Date.now()) / 1000));
-        setSleepTimer(remaining);
-      }
-    }, 1000);
-
-    sleepTimerIntervalRef.current = interval;
-
-    return () => {
-      if (sleepTimerIntervalRef.current) {
-        clearInterval(sleepTimerIntervalRef.current);
-        sleepTimerIntervalRef.current = null;
-      }
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [sleepTimer === null, isPlaying]);
+  // Advance to the next chapter, unless a chapter-based sleep timer says stop
+  const advanceChapter = () => {
+    const shouldStop = currentChapter ? useSleepTimerStore.getState().consumeChapter(currentChapter.id) : false;
+    if (!shouldStop && restartForRepeat()) return;
+    skipToNext().then(() => {
+      if (!shouldStop) return;
+      usePlayQueueStore.getState().cancelUpNext();
+      setIsPlaying(false);
+    });
+  };
 
-  // Handle Sleep Timer Expiration
   useEffect(() => {
-    if (sleepTimer === 0) {
-      if (isPlaying) {
-        togglePlay();
-      }
-      
-      // Reset sleep timer references
-      sleepTimerEndTimeRef.current = null;
-      if (sleepTimerIntervalRef.current) {
-        clearInterval(sleepTimerIntervalRef.current);
-        sleepTimerIntervalRef.current = null;
-      }
-      
-      setTimeout(() => setSleepTimer(null), 0);
-    }
-  }, [sleepTimer, isPlaying, togglePlay]);
+    if (!audioRef.current) return;
+    audioRef.current.playbackRate = playbackRate;
+  }, [playbackRate]);
 
   useEffect(() => {
     if (!audioRef.current) return;
-    audioRef.current.playbackRate = playbackSpeed;
-  }, [playbackSpeed]);
+    audioRef.current.preservesPitch = preservesPitch;
+  }, [preservesPitch]);
 
   useEffect(() => {
     if (!audioRef.current) return;
@@ -627,8 +923,15 @@ const Player: React.FC = () => {
   // Sync progress to backend via WebSocket (primary) and HTTP (fallback)
   useEffect(() => {
     if (isPlaying && currentBook && currentChapter) {
-      // Skip sync in offline mode
-      if (!navigator.onLine || window.location.hash.includes('/offline')) return;
+      // Offline: queue progress locally, replayed by useOfflineProgressSync once back online
+      if (!navigator.onLine || window.location.hash.includes('/offline')) {
+        const saveProgressQueue = () => {
+          enqueueProgress(currentBook.id, currentChapter.id, currentTimeRef.current);
+        };
+        saveProgressQueue();
+        const queueTimer = setInterval(saveProgressQueue, 15000);
+        return () => clearInterval(queueTimer);
+      }
 
       const saveProgressWs = () => {
         wsSendProgress(currentBook.id, currentChapter.id, Math.floor(currentTimeRef.current));
@@ -639,7 +942,11 @@ const Player: React.FC = () => {
           bookId: currentBook.id,
           chapterId: currentChapter.id,
           position: Math.floor(currentTimeRef.current)
-        }).catch(err => console.error('HTTP进度同步失败', err));
+        }).catch(err => {
+          console.error('HTTP进度同步失败', err);
+          // Connection dropped without the offline event firing yet
+          if (!err.response) enqueueProgress(currentBook.id, currentChapter.id, currentTimeRef.current);
+        });
       };
 
       // Save immediately on start
@@ -673,7 +980,9 @@ const Player: React.FC = () => {
   const prevIsPlayingRef = useRef(isPlaying);
   useEffect(() => {
     const isOffline = !navigator.onLine || window.location.hash.includes('/offline');
-    if (prevIsPlayingRef.current && !isPlaying && currentBook && currentChapter && !isOffline) {
+    if (prevIsPlayingRef.current && !isPlaying && currentBook && currentChapter && isOffline) {
+      enqueueProgress(currentBook.id, currentChapter.id, currentTimeRef.current);
+    } else if (prevIsPlayingRef.current && !isPlaying && currentBook && currentChapter) {
       const pos = Math.floor(currentTimeRef.current);
       wsSendProgress(currentBook.id, currentChapter.id, pos);
       apiClient.post('/api/progress', {
@@ -721,7 +1030,7 @@ const Player: React.FC = () => {
       }
       
       // Ensure playback rate is applied
-      audioRef.current.playbackRate = playbackSpeed;
+      audioRef.current.playbackRate = playbackRate;
 
       // Sync duration back to server if it's significantly different
       if (currentChapter && Number.isFinite(browserDuration) && browserDuration > 0) {
@@ -758,24 +1067,7 @@ const Player: React.FC = () => {
   const handleSeekEnd = (e: React.ChangeEvent<HTMLInputElement>) => {
     const time = parseFloat(e.target.value);
     setIsSeeking(false);
-
-    if (audioRef.current) {
-      // For transcoded streams, native seeking won't work (no Range support)
-      // Detect by checking if seekable ranges are empty or if we're in transcode mode
-      const isNonSeekable = shouldTranscode || audioRef.current.seekable.length === 0;
-
-      if (isNonSeekable && shouldTranscode) {
-        // Reload audio with seek parameter (server-side seek via FFmpeg -ss)
-        setSeekOffset(time);
-        setCurrentTime(time);
-        isInitialLoadRef.current = false;
-      } else {
-        audioRef.current.currentTime = time;
-        setCurrentTime(time);
-      }
-    } else {
-      setCurrentTime(time);
-    }
+    seekAudio(time);
   };
 
   const formatTime = (time: number) => {
@@ -790,6 +1082,35 @@ const Player: React.FC = () => {
     return `${m}:${s.toString().padStart(2, '0')}`;
   };
 
+  // Listening time left in the chapter at the current speed
+  const remainingTime = scaleBySpeed(Math.max(0, duration - currentTime), playbackSpeed);
+
+  const openBookmarks = () => {
+    const position = Math.floor(currentTimeRef.current);
+    setBookmarkPosition(position);
+    setBookmarkTitle(`${currentChapter?.title || ''} ${formatTime(position)}`.trim());
+    setBookmarkNote('');
+    setShowBookmarks(true);
+    if (currentBook && navigator.onLine) fetchBookmarks(currentBook.id);
+  };
+
+  const handleAddBookmark = async () => {
+    if (!currentBook || !currentChapter || !bookmarkTitle.trim()) return;
+    const created = await addBookmark({
+      bookId: currentBook.id,
+      chapterId: currentChapter.id,
+      position: bookmarkPosition,
+      title: bookmarkTitle.trim(),
+      note: bookmarkNote.trim() || undefined
+    });
+    if (created) {
+      setBookmarkTitle('');
+      setBookmarkNote('');
+    } else {
+      alert('添加书签失败');
+    }
+  };
+
   const getChapterProgressText = (chapter: Chapter) => {
     if (!chapter.progressPosition || !chapter.duration) return null;
     
@@ -799,7 +1120,7 @@ const Player: React.FC = () => {
     return `已播${percent}%`;
   };
 
-  const hiddenPaths = ['/admin', '/settings', '/downloads', '/cache'];
+  const hiddenPaths = ['/admin', '/settings', '/cache'];
   const isHiddenPage = hiddenPaths.some(path => location.pathname.startsWith(path));
   const isWidgetMode = window.location.pathname.startsWith('/widget');
 
@@ -877,6 +1198,8 @@ const Player: React.FC = () => {
     right: isWidgetMode ? '0' : undefined,
   } : {};
 
+  const audioSrc = getStreamUrl(currentChapter.id);
+
   const handleEnded = () => {
     if (currentBook && currentChapter) {
       if (navigator.onLine && !window.location.hash.includes('/offline')) {
@@ -887,9 +1210,13 @@ const Player: React.FC = () => {
           chapterId: currentChapter.id,
           position: finalPosition
         }).catch(err => console.error('Failed to sync final progress', err));
+      } else {
+        enqueueProgress(currentBook.id, currentChapter.id, duration);
       }
     }
-    nextChapter();
+    // Keep audio going from the preloaded element while the next chapter loads
+    startHandoff();
+    advanceChapter();
   };
 
   return (
@@ -906,7 +1233,7 @@ const Player: React.FC = () => {
     >
       <audio
         ref={audioRef}
-        src={getStreamUrl(currentChapter.id) + (retryCount > 0 ? `&retry=${retryCount}` : '')}
+        src={isCachedSource(audioSrc) ? audioSrc : audioSrc + (retryCount > 0 ? `&retry=${retryCount}` : '')}
         crossOrigin="anonymous"
         onTimeUpdate={handleTimeUpdate}
         onProgress={handleProgress}
@@ -919,12 +1246,49 @@ const Player: React.FC = () => {
           setError(null);
           setIsPlaying(true);
           if (audioRef.current) {
-            audioRef.current.playbackRate = playbackSpeed;
+            audioRef.current.playbackRate = playbackRate;
           }
         }}
         onPause={() => setIsPlaying(false)}
         onError={(e) => {
           const audio = audioRef.current;
+          // Cached file is missing or unplayable, fall back to streaming from the server
+          if (isCachedSource(audioSrc)) {
+            console.log('Cached chapter failed to play, falling back to network stream');
+            isInitialLoadRef.current = true;
+            setLocalFailedChapterId(currentChapter.id);
+            return;
+          }
+          // Reload the stream from the current position with a new token or address
+          const chapterId = currentChapter.id;
+          const resumeWith = (newToken: string | null, baseUrl: string) => {
+            isInitialLoadRef.current = true;
+            setStreamAuth({ chapterId, token: newToken, baseUrl });
+            setRetryCount(prev => prev + 1);
+          };
+          // The token or server address changed since the stream started
+          if (streamToken !== token || streamBaseUrl !== API_BASE_URL) {
+            resumeWith(token, API_BASE_URL);
+            return;
+          }
+          // The stream's token has expired
+          if (isTokenExpired(streamToken)) {
+            refreshSession()
+              .then(newToken => (newToken ? resumeWith(newToken, API_BASE_URL) : expireSession()))
+              .catch(() => setError('音频加载出错，请检查网络连接'));
+            return;
+          }
+          // Connection lost (e.g. left the LAN): fail over to another address of the server
+          if (audio?.error?.code === 2 && isElectron && navigator.onLine) {
+            selectEndpoint().then(baseUrl => {
+              if (baseUrl && baseUrl !== streamBaseUrl) {
+                resumeWith(token, baseUrl);
+              } else {
+                setError('音频加载出错，请检查网络连接');
+              }
+            });
+            return;
+          }
           if (audio && audio.error) {
             // Code 4 is MEDIA_ERR_SRC_NOT_SUPPORTED - often format issue
             if (audio.error.code === 4 || (audio.error.code === 3 && retryCount < 3)) {
@@ -1064,7 +1428,7 @@ const Player: React.FC = () => {
                   <RotateCw size={18} />
                 </button>
                 <button 
-                  onClick={nextChapter} 
+                  onClick={() => skipToNext()} 
                   className="text-slate-400 dark:text-slate-300 hover:scale-110 transition-all"
                   style={{ color: (miniPlayerThemeColor && !useDarkControls) ? (isLight(miniPlayerThemeColor) ? '#475569' : setAlpha(miniPlayerThemeColor, 0.6)) : undefined }}
                 >
@@ -1086,7 +1450,7 @@ const Player: React.FC = () => {
                   onSeekStart={handleSeekStart}
                   onSeekEnd={handleSeekEnd}
                 />
-                <span className="text-[10px] text-slate-400 w-8">{formatTime(duration)}</span>
+                <span className="text-[10px] text-slate-400 w-8" title="按当前倍速计算的剩余时间">-{formatTime(remainingTime)}</span>
               </div>
             </div>
 
@@ -1139,7 +1503,7 @@ const Player: React.FC = () => {
                   <div className="flex items-center gap-1">
                     {/* Always show Next button */}
                     <button 
-                      onClick={nextChapter}
+                      onClick={() => skipToNext()}
                       className="p-1.5 text-slate-400 dark:text-slate-300 transition-colors hover:text-primary-500"
                       style={{ color: (miniPlayerThemeColor && !useDarkControls) ? (isLight(miniPlayerThemeColor) ? '#475569' : setAlpha(miniPlayerThemeColor, 0.6)) : undefined }}
                     >
@@ -1226,16 +1590,16 @@ const Player: React.FC = () => {
                 )}
               </div>
 
-              <button 
-                onClick={() => setPlaybackSpeed(playbackSpeed === 2 ? 1 : playbackSpeed + 0.25)} 
+              <SpeedControl 
+                align="right"
                 className={`text-[10px] font-bold px-2 py-1 rounded transition-colors ${useDarkControls ? 'text-slate-200 hover:text-white' : 'dark:text-slate-300'}`}
                 style={{ 
                   backgroundColor: (miniPlayerThemeColor && !useDarkControls) ? setAlpha(miniPlayerThemeColor, 0.1) : undefined,
                   color: (miniPlayerThemeColor && !useDarkControls) ? (isLight(miniPlayerThemeColor) ? '#475569' : setAlpha(miniPlayerThemeColor, 0.8)) : undefined
                 }}
               >
-                {playbackSpeed}x
-              </button>
+                {formatSpeed(playbackSpeed)}
+              </SpeedControl>
               <button 
                 onClick={() => setIsCollapsed(true)} 
                 className={`transition-colors p-1 hover:scale-110 ${useDarkControls ? 'text-slate-200 hover:text-white' : 'text-slate-400 dark:text-slate-300'}`}
@@ -1274,7 +1638,9 @@ const Player: React.FC = () => {
             </button>
             <div className="flex-1 text-center px-2 sm:px-4 min-w-0">
               <h2 className="text-sm sm:text-lg font-bold dark:text-white text-[#4A3728] truncate">{currentBook?.title}</h2>
-              <p className="text-[10px] sm:text-xs text-slate-500 truncate">{currentChapter.title}</p>
+              <p className="text-[10px] sm:text-xs text-slate-500 truncate">
+                {currentChapter.title}{currentSubChapter ? ` · ${currentSubChapter.title}` : ''}
+              </p>
             </div>
             <div className="flex items-center gap-0.5 sm:gap-1">
               <button 
@@ -1334,7 +1700,26 @@ const Player: React.FC = () => {
                 <ListMusic size={18} className="sm:w-5 sm:h-5 dark:text-white text-[#4A3728]" />
               </button>
               <button 
-                onClick={() => setShowSettings(true)}
+                onClick={() => setShowQueue(true)}
+                className="relative p-1.5 sm:p-2 hover:bg-slate-100/50 dark:hover:bg-slate-800/50 rounded-full transition-colors"
+                title="播放队列"
+              >
+                <ListOrdered size={18} className="sm:w-5 sm:h-5 dark:text-white text-[#4A3728]" />
+                {queueLength > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-primary-600 text-white text-[10px] font-bold flex items-center justify-center">
+                    {queueLength}
+                  </span>
+                )}
+              </button>
+              <button 
+                onClick={openBookmarks}
+                className="p-1.5 sm:p-2 hover:bg-slate-100/50 dark:hover:bg-slate-800/50 rounded-full transition-colors"
+                title="书签"
+              >
+                <BookmarkIcon size={18} className="sm:w-5 sm:h-5 dark:text-white text-[#4A3728]" />
+              </button>
+              <button 
+                onClick={openSettings}
                 className="p-1.5 sm:p-2 hover:bg-slate-100/50 dark:hover:bg-slate-800/50 rounded-full transition-colors"
               >
                 <Settings size={18} className="sm:w-5 sm:h-5 dark:text-white text-[#4A3728]" />
@@ -1373,10 +1758,14 @@ const Player: React.FC = () => {
                       onSeek={handleSeek}
                       onSeekStart={handleSeekStart}
                       onSeekEnd={handleSeekEnd}
+                      markers={progressMarkers}
+                      waveform={waveform}
+                      title={currentChapter.title}
+                      loop={chapterLoop}
                     />
                   </div>
-                  <span className="text-[10px] sm:text-xs font-medium text-slate-500 dark:text-slate-400 min-w-[40px]">
-                    {formatTime(duration)}
+                  <span className="text-[10px] sm:text-xs font-medium text-slate-500 dark:text-slate-400 min-w-[40px]" title="按当前倍速计算的剩余时间">
+                    -{formatTime(remainingTime)}
                   </span>
 
                   {/* Volume Control */}
@@ -1467,7 +1856,7 @@ const Player: React.FC = () => {
                 </button>
 
                 <button 
-                  onClick={nextChapter}
+                  onClick={() => skipToNext()}
                   className="text-slate-900 dark:text-white p-1.5 sm:p-2 hover:scale-110 transition-transform"
                 >
                   <SkipForward size={28} className="sm:w-9 sm:h-9" fill="currentColor" />
@@ -1485,17 +1874,49 @@ const Player: React.FC = () => {
 
               {/* Bottom Row Controls */}
               <div className="flex justify-between items-center max-w-2xl mx-auto w-full px-2 sm:px-4 text-slate-600 dark:text-slate-400">
+                <SpeedControl className="flex flex-col items-center gap-1 sm:gap-1.5 transition-all active:scale-95 group relative">
+                  <div className="p-2 rounded-xl group-hover:bg-white/40 dark:group-hover:bg-slate-800/40 transition-colors">
+                    <Zap size={18} className={`sm:w-5 sm:h-5 ${playbackSpeed !== 1 ? 'text-primary-600 animate-pulse' : ''}`} />
+                  </div>
+                  <span className="text-[10px] sm:text-xs font-bold">{formatSpeed(playbackSpeed)}</span>
+                </SpeedControl>
+
                 <button 
-                  onClick={() => setPlaybackSpeed(playbackSpeed >= 2 ? 0.5 : playbackSpeed + 0.25)}
-                  className="flex flex-col items-center gap-1 sm:gap-1.5 transition-all active:scale-95 group relative"
+                  onClick={cycleRepeatMode}
+                  className="flex flex-col items-center gap-1 sm:gap-1.5 transition-all active:scale-95 group"
+                  title="重复模式"
                 >
                   <div className="p-2 rounded-xl group-hover:bg-white/40 dark:group-hover:bg-slate-800/40 transition-colors">
-                    <Zap size={18} className={`sm:w-5 sm:h-5 ${playbackSpeed !== 1 ? 'text-primary-600 animate-pulse' : ''}`} />
+                    {repeatMode === 'chapter' ? (
+                      <Repeat1 size={18} className="sm:w-5 sm:h-5 text-primary-600" />
+                    ) : (
+                      <Repeat size={18} className={`sm:w-5 sm:h-5 ${repeatMode === 'book' ? 'text-primary-600' : ''}`} />
+                    )}
                   </div>
-                  <span className="text-[10px] sm:text-xs font-bold">{playbackSpeed}x</span>
+                  <span className="text-[10px] sm:text-xs font-bold whitespace-nowrap">
+                    {repeatMode === 'chapter' ? '单章循环' : repeatMode === 'book' ? '整书循环' : '不循环'}
+                  </span>
                 </button>
 
-
+                <button 
+                  onClick={() => {
+                    if (!currentChapter) return;
+                    if (chapterLoop?.end != null) {
+                      clearLoop();
+                    } else {
+                      markLoopPoint(currentChapter.id, currentTimeRef.current);
+                    }
+                  }}
+                  className="flex flex-col items-center gap-1 sm:gap-1.5 transition-all active:scale-95 group"
+                  title={chapterLoop?.end != null ? '取消 A-B 循环' : chapterLoop ? '设置 B 点' : '设置 A 点'}
+                >
+                  <div className={`p-2 rounded-xl group-hover:bg-white/40 dark:group-hover:bg-slate-800/40 transition-colors text-sm sm:text-base font-black leading-[18px] sm:leading-5 ${chapterLoop ? 'text-emerald-500' : ''}`}>
+                    A-B
+                  </div>
+                  <span className="text-[10px] sm:text-xs font-bold whitespace-nowrap">
+                    {chapterLoop?.end != null ? '取消循环' : chapterLoop ? '设置 B 点' : '设置 A 点'}
+                  </span>
+                </button>
 
                 <div className="flex flex-col items-center gap-1 sm:gap-1.5">
                   <div className="p-2">
@@ -1517,10 +1938,14 @@ const Player: React.FC = () => {
                     className="flex flex-col items-center gap-1 sm:gap-1.5 transition-all active:scale-95 group"
                   >
                     <div className="p-2 rounded-xl group-hover:bg-white/40 dark:group-hover:bg-slate-800/40 transition-colors">
-                      <Clock size={18} className={`sm:w-5 sm:h-5 ${sleepTimer ? 'text-primary-600' : ''}`} />
+                      <Clock size={18} className={`sm:w-5 sm:h-5 ${sleepTimerMode ? 'text-primary-600' : ''}`} />
                     </div>
                     <span className="text-[10px] sm:text-xs font-bold whitespace-nowrap">
-                      {sleepTimer ? `${Math.floor(sleepTimer / 60)}:${(sleepTimer % 60).toString().padStart(2, '0')}` : '定时'}
+                      {sleepTimerMode === 'time'
+                        ? `${Math.floor(sleepTimerRemaining / 60)}:${(sleepTimerRemaining % 60).toString().padStart(2, '0')}`
+                        : sleepTimerMode === 'chapters'
+                        ? (sleepTimerChaptersLeft === 1 ? '本章结束' : `剩 ${sleepTimerChaptersLeft} 章`)
+                        : '定时'}
                     </span>
                   </button>
                   
@@ -1534,10 +1959,7 @@ const Player: React.FC = () => {
                           <button
                             key={mins}
                             onClick={() => {
-                              const duration = mins * 60;
-                              const endTime = Date.now() + duration * 1000;
-                              sleepTimerEndTimeRef.current = endTime;
-                              setSleepTimer(duration);
+                              startSleepTimer(mins);
                               setShowSleepTimer(false);
                             }}
                             className="px-3 py-2 text-xs sm:text-sm rounded-xl hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 transition-colors border border-transparent hover:border-slate-200 dark:hover:border-slate-600"
@@ -1547,6 +1969,21 @@ const Player: React.FC = () => {
                         ))}
                       </div>
 
+                      <div className="grid grid-cols-3 gap-2">
+                        {[1, 2, 3].map(count => (
+                          <button
+                            key={count}
+                            onClick={() => {
+                              startChapterTimer(count);
+                              setShowSleepTimer(false);
+                            }}
+                            className="px-2 py-2 text-xs rounded-xl hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 transition-colors border border-transparent hover:border-slate-200 dark:hover:border-slate-600 whitespace-nowrap"
+                          >
+                            {count === 1 ? '本章结束' : `${count} 章后`}
+                          </button>
+                        ))}
+                      </div>
+
                       <div className="mt-1 flex items-center gap-1 p-1 bg-slate-50 dark:bg-slate-900/50 rounded-xl border border-slate-100 dark:border-slate-700 focus-within:border-primary-500/50 transition-colors">
                         <input
                           type="number"
@@ -1565,10 +2002,7 @@ const Player: React.FC = () => {
                           onClick={() => {
                             const mins = parseInt(customMinutes);
                             if (mins > 0) {
-                              const duration = mins * 60;
-                              const endTime = Date.now() + duration * 1000;
-                              sleepTimerEndTimeRef.current = endTime;
-                              setSleepTimer(duration);
+                              startSleepTimer(mins);
                               setShowSleepTimer(false);
                               setCustomMinutes('');
                             }
@@ -1581,12 +2015,7 @@ const Player: React.FC = () => {
 
                       <button
                         onClick={() => {
-                          setSleepTimer(null);
-                          sleepTimerEndTimeRef.current = null;
-                          if (sleepTimerIntervalRef.current) {
-                            clearInterval(sleepTimerIntervalRef.current);
-                            sleepTimerIntervalRef.current = null;
-                          }
+                          cancelSleepTimer(true);
                           setShowSleepTimer(false);
                         }}
                         className="mt-2 px-4 py-2 text-xs sm:text-sm font-bold rounded-xl bg-red-50 dark:bg-red-900/20 text-red-500 transition-colors"
@@ -1641,6 +2070,119 @@ const Player: React.FC = () => {
                         placeholder="例如: 15"
                       />
                     </div>
+
+                    <div className="space-y-2">
+                      <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center justify-between gap-2">
+                        <span className="flex items-center gap-2">
+                          <Zap size={14} />
+                          本书倍速
+                        </span>
+                        <span className="text-primary-600">{editSpeed.toFixed(2)}x</span>
+                      </label>
+                      <input
+                        type="range"
+                        min={MIN_PLAYBACK_SPEED}
+                        max={MAX_PLAYBACK_SPEED}
+                        step={PLAYBACK_SPEED_STEP}
+                        value={editSpeed}
+                        onChange={e => setEditSpeed(parseFloat(e.target.value))}
+                        className="w-full accent-primary-600"
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center justify-between gap-2">
+                        <span className="flex items-center gap-2">
+                          <Volume2 size={14} />
+                          音量增益
+                        </span>
+                        <span className="text-primary-600">{Math.round(editGain * 100)}%</span>
+                      </label>
+                      <input
+                        type="range"
+                        min={0.5}
+                        max={2}
+                        step={0.05}
+                        value={editGain}
+                        onChange={e => setEditGain(parseFloat(e.target.value))}
+                        className="w-full accent-primary-600"
+                      />
+                    </div>
+
+                    {currentBook?.narrator && (
+                      <label className="flex items-center gap-3 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={saveForNarrator}
+                          onChange={e => setSaveForNarrator(e.target.checked)}
+                          className="w-4 h-4 accent-primary-600"
+                        />
+                        <span className="min-w-0 truncate">同时作为演播「{currentBook.narrator}」的默认配置</span>
+                      </label>
+                    )}
+
+                    {/* Audio processing, applied immediately */}
+                    <div className="space-y-3 pt-4 border-t border-slate-100 dark:border-slate-800">
+                      <label className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                        <AudioLines size={14} />
+                        音效处理
+                      </label>
+                      {([
+                        ['silenceSpeedup', '静音段加速播放'],
+                        ['voiceBoost', '人声增强'],
+                        ['nightMode', '夜间模式 (压缩动态)'],
+                        ['loudnessNormalization', '响度均衡']
+                      ] as [keyof AudioEffects, string][]).map(([effect, label]) => (
+                        <div key={effect} className="flex items-center justify-between gap-4">
+                          <span className="text-sm font-medium text-slate-700 dark:text-slate-300">{label}</span>
+                          <button
+                            onClick={() => setAudioEffect(effect, !audioEffects[effect])}
+                            className={`flex-shrink-0 w-11 h-6 rounded-full transition-all relative ${
+                              audioEffects[effect] ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+                            }`}
+                          >
+                            <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-all ${
+                              audioEffects[effect] ? 'left-6' : 'left-1'
+                            }`} />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Sentence repeat for language practice */}
+                    <div className="space-y-3 pt-4 border-t border-slate-100 dark:border-slate-800">
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                          <span className="text-sm font-medium text-slate-700 dark:text-slate-300">逐句复读</span>
+                          <p className="text-xs text-slate-400">按停顿自动断句，每句重复播放</p>
+                        </div>
+                        <button
+                          onClick={() => setSentenceRepeat(!sentenceRepeat)}
+                          className={`flex-shrink-0 w-11 h-6 rounded-full transition-all relative ${
+                            sentenceRepeat ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+                          }`}
+                        >
+                          <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-all ${
+                            sentenceRepeat ? 'left-6' : 'left-1'
+                          }`} />
+                        </button>
+                      </div>
+                      {sentenceRepeat && (
+                        <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl">
+                          {[2, 3, 5, 10].map(count => (
+                            <button
+                              key={count}
+                              onClick={() => setSentenceRepeatCount(count)}
+                              className={`flex-1 px-2 py-1.5 text-xs font-bold rounded-lg transition-all ${
+                                sentenceRepeatCount === count ? 'bg-white dark:bg-slate-700 shadow-sm text-primary-600' : 'text-slate-500'
+                              }`}
+                            >
+                              {count} 遍
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
                   </div>
 
                   <div className="mt-8 flex gap-3">
@@ -1663,6 +2205,93 @@ const Player: React.FC = () => {
             </div>
           )}
 
+          {/* Bookmarks Drawer */}
+          {showBookmarks && currentBook && (
+            <div className="fixed inset-0 z-[250] flex items-end sm:items-center justify-center">
+              <div 
+                className="absolute inset-0 bg-black/40 backdrop-blur-sm animate-in fade-in duration-300" 
+                onClick={() => setShowBookmarks(false)}
+              />
+              <div className="relative w-full max-w-2xl bg-white dark:bg-slate-900 rounded-t-[32px] sm:rounded-[32px] h-[80vh] sm:h-[70vh] flex flex-col overflow-hidden animate-in slide-in-from-bottom duration-300 shadow-2xl">
+                <div className="p-4 sm:p-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+                  <h3 className="text-lg sm:text-xl font-bold dark:text-white flex items-center gap-2">
+                    <BookmarkIcon size={24} className="text-primary-600" />
+                    书签与笔记
+                  </h3>
+                  <button 
+                    onClick={() => setShowBookmarks(false)}
+                    className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors"
+                  >
+                    <ChevronUp className="rotate-180" size={24} />
+                  </button>
+                </div>
+
+                <div className="p-4 sm:p-6 border-b border-slate-100 dark:border-slate-800 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input 
+                      value={bookmarkTitle}
+                      onChange={e => setBookmarkTitle(e.target.value)}
+                      className="flex-1 min-w-0 px-4 py-2.5 text-sm bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+                      placeholder="书签名称"
+                    />
+                    <span className="text-xs font-bold text-slate-400 shrink-0">{formatTime(bookmarkPosition)}</span>
+                  </div>
+                  <textarea 
+                    value={bookmarkNote}
+                    onChange={e => setBookmarkNote(e.target.value)}
+                    rows={2}
+                    className="w-full px-4 py-2.5 text-sm bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl outline-none focus:ring-2 focus:ring-primary-500 dark:text-white resize-none"
+                    placeholder="笔记（可选）"
+                  />
+                  <button 
+                    onClick={handleAddBookmark}
+                    disabled={!bookmarkTitle.trim()}
+                    className="w-full py-2.5 bg-primary-600 hover:bg-primary-700 text-white text-sm font-bold rounded-2xl shadow-lg shadow-primary-500/30 flex items-center justify-center gap-2 transition-all disabled:opacity-50"
+                  >
+                    <BookmarkIcon size={16} />
+                    添加书签
+                  </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-2 sm:p-4">
+                  <BookmarkList 
+                    book={currentBook} 
+                    chapters={playerChapters} 
+                    onJump={() => setShowBookmarks(false)} 
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Play Queue Drawer */}
+          {showQueue && (
+            <div className="fixed inset-0 z-[250] flex items-end sm:items-center justify-center">
+              <div 
+                className="absolute inset-0 bg-black/40 backdrop-blur-sm animate-in fade-in duration-300" 
+                onClick={() => setShowQueue(false)}
+              />
+              <div className="relative w-full max-w-2xl bg-white dark:bg-slate-900 rounded-t-[32px] sm:rounded-[32px] h-[80vh] sm:h-[70vh] flex flex-col overflow-hidden animate-in slide-in-from-bottom duration-300 shadow-2xl">
+                <div className="p-4 sm:p-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+                  <h3 className="text-lg sm:text-xl font-bold dark:text-white flex items-center gap-2">
+                    <ListOrdered size={24} className="text-primary-600" />
+                    播放队列
+                  </h3>
+                  <button 
+                    onClick={() => setShowQueue(false)}
+                    className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors"
+                  >
+                    <ChevronUp className="rotate-180" size={24} />
+                  </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-2 sm:p-4">
+                  <PlayQueueList onPlay={() => setShowQueue(false)} />
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Chapter List Drawer */}
           {showChapters && (
             <div className="fixed inset-0 z-[250] flex items-end sm:items-center justify-center">
@@ -1756,72 +2385,84 @@ const Player: React.FC = () => {
                     const actualIndex = currentGroupIndex * chaptersPerGroup + index;
                     const isCurrent = currentChapter?.id === chapter.id;
                     
+                    const nestedChapters = chapter.subChapters?.length ? chapter.subChapters : knownSubChapters[chapter.id];
+
                     return (
-                      <div 
-                        key={chapter.id}
-                        id={`player-chapter-${chapter.id}`}
-                        onClick={() => {
-                          playChapter(currentBook!, currentChapters, chapter);
-                          setShowChapters(false);
-                        }}
-                        className={`group flex items-center justify-between p-4 rounded-2xl cursor-pointer transition-all border ${
-                          isCurrent 
-                            ? 'bg-opacity-10 border-opacity-20' 
-                            : 'bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 hover:border-primary-200 dark:hover:border-primary-800'
-                        }`}
-                        style={isCurrent ? { 
-                          backgroundColor: effectiveThemeColor ? setAlpha(effectiveThemeColor, 0.1) : undefined,
-                          borderColor: effectiveThemeColor ? setAlpha(effectiveThemeColor, 0.3) : undefined,
-                        } : {}}
-                      >
-                        <div className="flex items-center gap-4 min-w-0">
-                            <div 
-                              className={`w-10 h-10 sm:w-12 sm:h-12 rounded-xl flex items-center justify-center font-bold text-base sm:text-lg shrink-0 ${
-                                isCurrent ? `text-white ${!effectiveThemeColor ? 'bg-primary-600' : ''}` : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400'
-                              }`}
-                              style={isCurrent ? { 
-                                backgroundColor: effectiveThemeColor ? toSolidColor(effectiveThemeColor) : undefined,
-                                color: (effectiveThemeColor && isLight(effectiveThemeColor)) ? '#475569' : (effectiveThemeColor ? '#ffffff' : undefined)
-                              } : {}}
-                            >
-                            {chapter.chapterIndex || (actualIndex + 1)}
-                          </div>
-                          <div className="min-w-0">
-                            <p 
-                              className={`text-sm sm:text-base font-bold truncate ${isCurrent ? '' : 'text-slate-900 dark:text-white'}`}
-                              style={isCurrent ? { color: effectiveThemeColor ? toSolidColor(effectiveThemeColor) : undefined } : {}}
-                            >
-                              {chapter.title}
-                            </p>
-                            <div className="flex items-center gap-3 mt-1">
-                              <div className="flex items-center gap-1 text-[10px] sm:text-xs text-slate-400 font-medium">
-                                <Clock size={12} />
-                                {formatTime(chapter.duration)}
-                              </div>
-                              {getChapterProgressText(chapter) && (
-                                <div 
-                                  className={`text-[10px] font-bold px-1.5 py-0.5 rounded-md ${
-                                    getChapterProgressText(chapter) === '已播完' 
-                                      ? 'bg-green-50 text-green-500 dark:bg-green-900/20' 
-                                      : 'bg-primary-50 text-primary-600 dark:bg-primary-900/20'
-                                  }`}
-                                >
-                                  {getChapterProgressText(chapter)}
+                      <div key={chapter.id}>
+                        <div 
+                          id={`player-chapter-${chapter.id}`}
+                          onClick={() => {
+                            playChapter(currentBook!, currentChapters, chapter);
+                            setShowChapters(false);
+                          }}
+                          className={`group flex items-center justify-between p-4 rounded-2xl cursor-pointer transition-all border ${
+                            isCurrent 
+                              ? 'bg-opacity-10 border-opacity-20' 
+                              : 'bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 hover:border-primary-200 dark:hover:border-primary-800'
+                          }`}
+                          style={isCurrent ? { 
+                            backgroundColor: effectiveThemeColor ? setAlpha(effectiveThemeColor, 0.1) : undefined,
+                            borderColor: effectiveThemeColor ? setAlpha(effectiveThemeColor, 0.3) : undefined,
+                          } : {}}
+                        >
+                          <div className="flex items-center gap-4 min-w-0">
+                              <div 
+                                className={`w-10 h-10 sm:w-12 sm:h-12 rounded-xl flex items-center justify-center font-bold text-base sm:text-lg shrink-0 ${
+                                  isCurrent ? `text-white ${!effectiveThemeColor ? 'bg-primary-600' : ''}` : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400'
+                                }`}
+                                style={isCurrent ? { 
+                                  backgroundColor: effectiveThemeColor ? toSolidColor(effectiveThemeColor) : undefined,
+                                  color: (effectiveThemeColor && isLight(effectiveThemeColor)) ? '#475569' : (effectiveThemeColor ? '#ffffff' : undefined)
+                                } : {}}
+                              >
+                              {chapter.chapterIndex || (actualIndex + 1)}
+                            </div>
+                            <div className="min-w-0">
+                              <p 
+                                className={`text-sm sm:text-base font-bold truncate ${isCurrent ? '' : 'text-slate-900 dark:text-white'}`}
+                                style={isCurrent ? { color: effectiveThemeColor ? toSolidColor(effectiveThemeColor) : undefined } : {}}
+                              >
+                                {chapter.title}
+                              </p>
+                              <div className="flex items-center gap-3 mt-1">
+                                <div className="flex items-center gap-1 text-[10px] sm:text-xs text-slate-400 font-medium">
+                                  <Clock size={12} />
+                                  {formatTime(scaleBySpeed(chapter.duration, playbackSpeed))}
                                 </div>
-                              )}
+                                {getChapterProgressText(chapter) && (
+                                  <div 
+                                    className={`text-[10px] font-bold px-1.5 py-0.5 rounded-md ${
+                                      getChapterProgressText(chapter) === '已播完' 
+                                        ? 'bg-green-50 text-green-500 dark:bg-green-900/20' 
+                                        : 'bg-primary-50 text-primary-600 dark:bg-primary-900/20'
+                                    }`}
+                                  >
+                                    {getChapterProgressText(chapter)}
+                                  </div>
+                                )}
+                              </div>
                             </div>
                           </div>
-                        </div>
                         
-                        <div className="flex items-center gap-4 pl-4 border-l border-slate-100 dark:border-slate-800 ml-4">
-                          {isCurrent && isPlaying && (
-                            <div className="flex gap-1 items-end h-5">
-                              <div className={`w-1 animate-music-bar-1 rounded-full ${!effectiveThemeColor ? 'bg-primary-600' : ''}`} style={{ backgroundColor: effectiveThemeColor ? toSolidColor(effectiveThemeColor) : undefined }}></div>
-                              <div className={`w-1 animate-music-bar-2 rounded-full ${!effectiveThemeColor ? 'bg-primary-600' : ''}`} style={{ backgroundColor: effectiveThemeColor ? toSolidColor(effectiveThemeColor) : undefined }}></div>
-                              <div className={`w-1 animate-music-bar-3 rounded-full ${!effectiveThemeColor ? 'bg-primary-600' : ''}`} style={{ backgroundColor: effectiveThemeColor ? toSolidColor(effectiveThemeColor) : undefined }}></div>
-                            </div>
-                          )}
+                          <div className="flex items-center gap-4 pl-4 border-l border-slate-100 dark:border-slate-800 ml-4">
+                            {isCurrent && isPlaying && (
+                              <div className="flex gap-1 items-end h-5">
+                                <div className={`w-1 animate-music-bar-1 rounded-full ${!effectiveThemeColor ? 'bg-primary-600' : ''}`} style={{ backgroundColor: effectiveThemeColor ? toSolidColor(effectiveThemeColor) : undefined }}></div>
+                                <div className={`w-1 animate-music-bar-2 rounded-full ${!effectiveThemeColor ? 'bg-primary-600' : ''}`} style={{ backgroundColor: effectiveThemeColor ? toSolidColor(effectiveThemeColor) : undefined }}></div>
+                                <div className={`w-1 animate-music-bar-3 rounded-full ${!effectiveThemeColor ? 'bg-primary-600' : ''}`} style={{ backgroundColor: effectiveThemeColor ? toSolidColor(effectiveThemeColor) : undefined }}></div>
+                              </div>
+                            )}
+                          </div>
                         </div>
+                        {nestedChapters && nestedChapters.length > 0 && (
+                          <SubChapterList
+                            book={currentBook!}
+                            chapters={currentChapters}
+                            chapter={chapter}
+                            subChapters={nestedChapters}
+                            onJump={() => setShowChapters(false)}
+                          />
+                        )}
                       </div>
                     );
                   })}
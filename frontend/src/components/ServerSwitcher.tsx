@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Server, ChevronsUpDown, Check, Plus, Trash2, Edit } from 'lucide-react';
+import { useServerProfileStore, getProfileSummary } from '../store/serverProfileStore';
+
+/** Sidebar switcher between named server profiles, each keeps its own session */
+const ServerSwitcher: React.FC = () => {
+  const profiles = useServerProfileStore(state => state.profiles);
+  const activeId = useServerProfileStore(state => state.activeId);
+  const addProfile = useServerProfileStore(state => state.addProfile);
+  const renameProfile = useServerProfileStore(state => state.renameProfile);
+  const removeProfile = useServerProfileStore(state => state.removeProfile);
+  const switchTo = useServerProfileStore(state => state.switchTo);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const active = profiles.find(p => p.id === activeId) || profiles[0];
+  const activeSummary = getProfileSummary(active, true);
+
+  const handleAdd = () => {
+    const name = window.prompt('服务器名称（例如：家里、公司）');
+    if (!name?.trim()) return;
+    addProfile(name.trim());
+  };
+
+  const handleRename = (id: string, current: string) => {
+    const name = window.prompt('重命名服务器', current);
+    if (!name?.trim()) return;
+    renameProfile(id, name.trim());
+  };
+
+  const handleRemove = (id: string, name: string) => {
+    if (!window.confirm(`确定要移除服务器「${name}」吗？该服务器的登录信息和本地记录将被清除。`)) return;
+    removeProfile(id);
+  };
+
+  return (
+    <div className="relative mb-3" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-3 px-3 py-2.5 rounded-2xl bg-slate-50 dark:bg-slate-800/50 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors text-left"
+      >
+        <Server size={18} className="text-primary-600 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-bold dark:text-white truncate">{activeSummary.name}</p>
+          {activeSummary.host && (
+            <p className="text-[10px] text-slate-400 truncate">{activeSummary.host}</p>
+          )}
+        </div>
+        <ChevronsUpDown size={16} className="text-slate-400 shrink-0" />
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 left-0 right-0 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-2xl shadow-xl z-50 py-2 animate-in zoom-in-95 duration-200">
+          <div className="px-4 py-2 text-xs font-bold text-slate-400 uppercase tracking-widest border-b border-slate-50 dark:border-slate-800 mb-1">
+            切换服务器
+          </div>
+          {profiles.map(profile => {
+            const isActive = profile.id === activeId;
+            const summary = getProfileSummary(profile, isActive);
+            return (
+              <div key={profile.id} className="group flex items-center gap-1 px-2">
+                <button
+                  onClick={() => {
+                    setOpen(false);
+                    switchTo(profile.id);
+                  }}
+                  className={`flex-1 min-w-0 flex items-center gap-2 px-2 py-2 rounded-xl text-left transition-colors ${
+                    isActive ? 'text-primary-600 bg-primary-50/50 dark:bg-primary-900/20' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800'
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold truncate">{summary.name}</p>
+                    <p className="text-[10px] text-slate-400 truncate">
+                      {summary.user ? `${summary.user.username} @ ${summary.host || '未设置地址'}` : (summary.host || '未登录')}
+                    </p>
+                  </div>
+                  {isActive && <Check size={14} className="shrink-0" />}
+                </button>
+                <button
+                  onClick={() => handleRename(profile.id, summary.name)}
+                  className="p-1.5 text-slate-400 hover:text-primary-600 opacity-0 group-hover:opacity-100 transition-all"
+                  title="重命名"
+                >
+                  <Edit size={14} />
+                </button>
+                {!isActive && (
+                  <button
+                    onClick={() => handleRemove(profile.id, summary.name)}
+                    className="p-1.5 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                    title="移除"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          <div className="border-t border-slate-50 dark:border-slate-800 mt-1 pt-1 px-2">
+            <button
+              onClick={handleAdd}
+              className="w-full flex items-center gap-2 px-2 py-2 rounded-xl text-sm font-bold text-slate-500 hover:text-primary-600 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+            >
+              <Plus size={16} />
+              添加服务器
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServerSwitcher;
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { usePlayerStore } from '../store/playerStore';
+import {
+  MAX_PLAYBACK_SPEED,
+  MIN_PLAYBACK_SPEED,
+  PLAYBACK_SPEED_PRESETS,
+  PLAYBACK_SPEED_STEP,
+  formatSpeed
+} from '../utils/playbackSpeed';
+
+interface SpeedControlProps {
+  // Trigger content, the popover opens above it
+  children: React.ReactNode;
+  className?: string;
+  style?: React.CSSProperties;
+  align?: 'left' | 'right';
+}
+
+/** Speed button with a popover slider, presets and the pitch toggle */
+const SpeedControl: React.FC<SpeedControlProps> = ({ children, className, style, align = 'left' }) => {
+  const playbackSpeed = usePlayerStore(state => state.playbackSpeed);
+  const setPlaybackSpeed = usePlayerStore(state => state.setPlaybackSpeed);
+  const preservesPitch = usePlayerStore(state => state.preservesPitch);
+  const setPreservesPitch = usePlayerStore(state => state.setPreservesPitch);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setOpen(!open);
+        }}
+        className={className}
+        style={style}
+        title="播放倍速"
+      >
+        {children}
+      </button>
+
+      {open && (
+        <div
+          className={`absolute bottom-full mb-3 ${align === 'right' ? 'right-0' : 'left-0'} bg-white dark:bg-slate-800 shadow-2xl rounded-2xl p-4 border border-slate-100 dark:border-slate-700 w-64 flex flex-col gap-3 z-[220] animate-in zoom-in-95 duration-200 cursor-default`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">播放倍速</span>
+            <span className="text-sm font-bold text-primary-600">{formatSpeed(playbackSpeed)}</span>
+          </div>
+          <input
+            type="range"
+            min={MIN_PLAYBACK_SPEED}
+            max={MAX_PLAYBACK_SPEED}
+            step={PLAYBACK_SPEED_STEP}
+            value={playbackSpeed}
+            onChange={e => setPlaybackSpeed(parseFloat(e.target.value))}
+            className="w-full accent-primary-600"
+          />
+          <div className="grid grid-cols-6 gap-1">
+            {PLAYBACK_SPEED_PRESETS.map(speed => (
+              <button
+                key={speed}
+                onClick={() => setPlaybackSpeed(speed)}
+                className={`py-1 text-[10px] font-bold rounded-lg transition-colors ${
+                  playbackSpeed === speed
+                    ? 'bg-primary-600 text-white'
+                    : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700'
+                }`}
+              >
+                {speed}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-4 pt-2 border-t border-slate-100 dark:border-slate-700">
+            <span className="text-xs font-medium text-slate-600 dark:text-slate-300">变速保持音调</span>
+            <button
+              onClick={() => setPreservesPitch(!preservesPitch)}
+              className={`flex-shrink-0 w-11 h-6 rounded-full transition-all relative ${
+                preservesPitch ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+              }`}
+            >
+              <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-all ${
+                preservesPitch ? 'left-6' : 'left-1'
+              }`} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeedControl;
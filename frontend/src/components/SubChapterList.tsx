@@ -0,0 +1,53 @@
+import React from 'react';
+import type { Book, Chapter, SubChapter } from '../types';
+import { usePlayerStore } from '../store/playerStore';
+import { findSubChapterIndex } from '../utils/subChapters';
+import { formatPosition } from '../utils/bookmarks';
+
+interface SubChapterListProps {
+  book: Book;
+  chapters: Chapter[];
+  chapter: Chapter;
+  subChapters: SubChapter[];
+  onJump?: () => void;
+}
+
+/** Chapters embedded in a single file, nested under their parent chapter */
+const SubChapterList: React.FC<SubChapterListProps> = ({ book, chapters, chapter, subChapters, onJump }) => {
+  const isCurrent = usePlayerStore(state => state.currentChapter?.id === chapter.id);
+  const activeIndex = usePlayerStore(state =>
+    state.currentChapter?.id === chapter.id ? findSubChapterIndex(subChapters, state.currentTime) : -1
+  );
+  const playChapter = usePlayerStore(state => state.playChapter);
+  const seekTo = usePlayerStore(state => state.seekTo);
+
+  const handleSelect = (sub: SubChapter) => {
+    if (isCurrent) {
+      seekTo(sub.start);
+    } else {
+      playChapter(book, chapters, chapter, sub.start);
+    }
+    onJump?.();
+  };
+
+  return (
+    <div className="ml-6 sm:ml-8 mt-1 pl-3 border-l-2 border-slate-100 dark:border-slate-800 space-y-0.5">
+      {subChapters.map((sub, index) => (
+        <div
+          key={`${sub.start}-${index}`}
+          onClick={() => handleSelect(sub)}
+          className={`flex items-center justify-between gap-3 px-3 py-2 rounded-xl cursor-pointer transition-colors ${
+            index === activeIndex
+              ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-600'
+              : 'text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800/50'
+          }`}
+        >
+          <span className="text-xs sm:text-sm font-medium truncate">{sub.title}</span>
+          <span className="text-[10px] sm:text-xs text-slate-400 shrink-0">{formatPosition(sub.start)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SubChapterList;
@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { Play, X } from 'lucide-react';
+import { usePlayQueueStore, UP_NEXT_COUNTDOWN_SECONDS } from '../store/playQueueStore';
+
+/** Countdown before the next series volume starts, with a way out */
+const UpNextToast: React.FC = () => {
+  const upNext = usePlayQueueStore(state => state.upNext);
+  const startUpNext = usePlayQueueStore(state => state.startUpNext);
+  const cancelUpNext = usePlayQueueStore(state => state.cancelUpNext);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!upNext) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [upNext]);
+
+  if (!upNext) return null;
+  // `now` is stale for the first tick after the toast appears
+  const secondsLeft = Math.min(UP_NEXT_COUNTDOWN_SECONDS, Math.max(0, Math.ceil((upNext.startsAt - now) / 1000)));
+
+  return (
+    <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-[300] w-[calc(100%-2rem)] max-w-sm bg-slate-800 text-white px-4 py-3 rounded-2xl shadow-lg animate-in fade-in slide-in-from-bottom-4 flex items-center gap-3">
+      <div className="flex-1 min-w-0">
+        <p className="text-xs text-slate-300 truncate">{secondsLeft} 秒后播放「{upNext.series.title}」的下一本</p>
+        <p className="text-sm font-bold truncate">{upNext.book.title}</p>
+      </div>
+      <button
+        onClick={() => startUpNext()}
+        className="p-2 rounded-full bg-primary-600 hover:bg-primary-700 transition-colors"
+        title="立即播放"
+      >
+        <Play size={16} fill="currentColor" />
+      </button>
+      <button
+        onClick={cancelUpNext}
+        className="p-2 rounded-full hover:bg-slate-700 transition-colors"
+        title="取消"
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default UpNextToast;
@@ -0,0 +1,117 @@
+import { useEffect } from 'react';
+import type { RefObject } from 'react';
+import { usePlayerStore } from '../store/playerStore';
+import { useUserAudioEffects } from '../store/audioEffectsStore';
+import {
+  getAudioGraph,
+  hasAudioGraph,
+  integratedLoudness,
+  readMeanSquare,
+  setNightMode,
+  setVoiceBoost,
+  toLufs
+} from '../utils/audioGraph';
+
+const TICK_MS = 100;
+// 400ms momentary blocks, as in EBU R128
+const TICKS_PER_BLOCK = 4;
+// Measure a few seconds of a chapter before adjusting its level
+const MIN_BLOCKS = 10;
+const LOUDNESS_TARGET_LUFS = -18;
+const MIN_NORMALIZE_GAIN = 0.25;
+const MAX_NORMALIZE_GAIN = 4;
+const SILENCE_THRESHOLD_DB = -50;
+const SILENCE_MIN_TICKS = 3;
+const SILENCE_SPEEDUP = 2.5;
+const MAX_SILENCE_RATE = 4;
+
+/**
+ * Drive the Web Audio processing chain from the user's effect toggles:
+ * dialogue EQ, night compressor, per-chapter loudness normalisation and
+ * speeding through silent passages. The speed-up goes through the player
+ * store, which owns the element's playback rate.
+ */
+export function useAudioProcessing(audioRef: RefObject<HTMLAudioElement | null>) {
+  const { effects } = useUserAudioEffects();
+  const isPlaying = usePlayerStore(state => state.isPlaying);
+  const chapterId = usePlayerStore(state => state.currentChapter?.id);
+  const anyEnabled = Object.values(effects).some(Boolean);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || (!anyEnabled && !hasAudioGraph(audio))) return;
+
+    const graph = getAudioGraph(audio);
+    if (!graph) return;
+    setVoiceBoost(graph, effects.voiceBoost);
+    setNightMode(graph, effects.nightMode);
+    if (!effects.loudnessNormalization) {
+      graph.loudness.gain.setTargetAtTime(1, graph.context.currentTime, 0.1);
+    }
+    if (isPlaying && graph.context.state === 'suspended') {
+      graph.context.resume().catch(err => console.warn('恢复音频上下文失败', err));
+    }
+  }, [audioRef, effects, anyEnabled, isPlaying, chapterId]);
+
+  // Measurement loop, restarted per chapter so each one is normalised on its own
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !isPlaying || (!effects.silenceSpeedup && !effects.loudnessNormalization)) return;
+
+    const graph = getAudioGraph(audio);
+    if (!graph) return;
+
+    const buffer = new Float32Array(graph.analyser.fftSize);
+    const blocks: number[] = [];
+    let blockSum = 0;
+    let blockTicks = 0;
+    let silentTicks = 0;
+    let speeding = false;
+
+    const restoreRate = () => {
+      if (!speeding) return;
+      speeding = false;
+      usePlayerStore.getState().setSilenceRateBoost(1);
+    };
+
+    const timer = setInterval(() => {
+      const meanSquare = readMeanSquare(graph, buffer);
+
+      if (effects.silenceSpeedup) {
+        const silent = 10 * Math.log10(Math.max(meanSquare, 1e-12)) < SILENCE_THRESHOLD_DB;
+        silentTicks = silent ? silentTicks + 1 : 0;
+        if (silentTicks >= SILENCE_MIN_TICKS && !speeding) {
+          speeding = true;
+          // Up to SILENCE_SPEEDUP times faster, without pushing an already fast speed past MAX_SILENCE_RATE
+          const speed = usePlayerStore.getState().playbackSpeed;
+          usePlayerStore.getState().setSilenceRateBoost(Math.min(SILENCE_SPEEDUP, Math.max(1, MAX_SILENCE_RATE / speed)));
+        } else if (!silent) {
+          restoreRate();
+        }
+      }
+
+      // Sped-up silence would drag the measured loudness down
+      if (effects.loudnessNormalization && !speeding) {
+        blockSum += meanSquare;
+        blockTicks++;
+        if (blockTicks === TICKS_PER_BLOCK) {
+          blocks.push(toLufs(blockSum / blockTicks));
+          blockSum = 0;
+          blockTicks = 0;
+
+          const integrated = blocks.length >= MIN_BLOCKS ? integratedLoudness(blocks) : null;
+          if (integrated !== null) {
+            const target = Math.pow(10, (LOUDNESS_TARGET_LUFS - integrated) / 20);
+            const clamped = Math.min(Math.max(target, MIN_NORMALIZE_GAIN), MAX_NORMALIZE_GAIN);
+            graph.loudness.gain.setTargetAtTime(clamped, graph.context.currentTime, 1.5);
+          }
+        }
+      }
+    }, TICK_MS);
+
+    return () => {
+      clearInterval(timer);
+      restoreRate();
+    };
+  }, [audioRef, isPlaying, chapterId, effects.silenceSpeedup, effects.loudnessNormalization]);
+}
@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { selectEndpoint } from '../api/endpoints';
+import { isElectron } from '../utils/env';
+
+// Pick up a faster address that became reachable, e.g. back on the home LAN
+const RECHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Keep `activeUrl` on the fastest reachable address of a server with several */
+export function useEndpointFailover() {
+  const endpointCount = useAuthStore(state => state.endpoints.length);
+  const token = useAuthStore(state => state.token);
+
+  useEffect(() => {
+    if (!isElectron || !token || endpointCount < 2) return;
+
+    const check = () => {
+      if (navigator.onLine) selectEndpoint();
+    };
+    check();
+    const timer = setInterval(check, RECHECK_INTERVAL_MS);
+    // Network changes are when the best address usually changes
+    window.addEventListener('online', check);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', check);
+    };
+  }, [endpointCount, token]);
+}
@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { usePlayerStore } from '../store/playerStore';
+import { useSleepTimerStore } from '../store/sleepTimerStore';
+import { useRepeatStore, getActiveLoop } from '../store/repeatStore';
+import { attachToGraph, getAudioGraph, hasAudioGraph } from '../utils/audioGraph';
+
+const FADE_STEP_MS = 50;
+
+interface Bridge {
+  element: HTMLAudioElement;
+  chapterId: string;
+  // Routes the bridge through the main element's effects and gains
+  source: MediaElementAudioSourceNode | null;
+}
+
+/**
+ * Hand chapter transitions over to the preloaded next-chapter element so there
+ * is no gap while the main element loads the new source. The preloaded element
+ * plays as a bridge (optionally crossfading in before the end of the chapter)
+ * until the main element has caught up to the same position.
+ */
+export function useGaplessPlayback(
+  audioRef: RefObject<HTMLAudioElement | null>,
+  preloadAudioRef: RefObject<HTMLAudioElement | null>
+) {
+  const isPlaying = usePlayerStore(state => state.isPlaying);
+  const chapterId = usePlayerStore(state => state.currentChapter?.id);
+  const bridgeRef = useRef<Bridge | null>(null);
+  const fadeTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopFade = useCallback(() => {
+    if (fadeTimerRef.current) {
+      clearInterval(fadeTimerRef.current);
+      fadeTimerRef.current = null;
+    }
+    if (audioRef.current) {
+      audioRef.current.volume = usePlayerStore.getState().volume;
+    }
+  }, [audioRef]);
+
+  const cancelBridge = useCallback(() => {
+    stopFade();
+    const bridge = bridgeRef.current;
+    if (!bridge) return;
+    bridgeRef.current = null;
+    bridge.element.pause();
+    bridge.source?.disconnect();
+  }, [stopFade]);
+
+  const startBridge = useCallback((volumeRatio: number) => {
+    const { gaplessPlayback, volume, playbackSpeed, preservesPitch, chapters, currentChapter, currentBook } = usePlayerStore.getState();
+    const audio = audioRef.current;
+    const preload = preloadAudioRef.current;
+    if (!gaplessPlayback || !audio || !preload || !currentChapter || bridgeRef.current) return false;
+
+    // A chapter-based sleep timer is about to stop playback, don't start the next chapter
+    const { mode, chaptersLeft } = useSleepTimerStore.getState();
+    if (mode === 'chapters' && chaptersLeft <= 1) return false;
+    // The chapter (or a segment of it) is about to start over
+    if (useRepeatStore.getState().repeatMode === 'chapter' || getActiveLoop(currentChapter.id)) return false;
+
+    const index = chapters.findIndex(c => c.id === currentChapter.id);
+    const next = index !== -1 ? chapters[index + 1] : undefined;
+    if (!next || preload.dataset.chapterId !== next.id || preload.readyState < HTMLMediaElement.HAVE_FUTURE_DATA) {
+      return false;
+    }
+
+    // Start where the main element would, after the intro
+    const skipIntro = currentBook?.skipIntro || 0;
+    preload.currentTime = skipIntro > 0 && (!Number.isFinite(preload.duration) || skipIntro < preload.duration) ? skipIntro : 0;
+    preload.playbackRate = playbackSpeed;
+    preload.preservesPitch = preservesPitch;
+    preload.muted = audio.muted;
+    preload.volume = volume * volumeRatio;
+    // Same profile gain, effects and loudness level as the chapter it continues
+    const graph = hasAudioGraph(audio) ? getAudioGraph(audio) : null;
+    const source = graph ? attachToGraph(graph, preload) : null;
+    bridgeRef.current = { element: preload, chapterId: next.id, source };
+    // The bridge now owns this element, the next preload gets a fresh one
+    preloadAudioRef.current = null;
+
+    preload.play().catch(err => {
+      console.error('无缝切换章节失败', err);
+      cancelBridge();
+    });
+    return true;
+  }, [audioRef, preloadAudioRef, cancelBridge]);
+
+  // Called on timeupdate: fade the next chapter in over the last seconds of this one
+  const maybeStartCrossfade = useCallback(() => {
+    const { crossfadeSeconds, isPlaying: playing } = usePlayerStore.getState();
+    const audio = audioRef.current;
+    if (!crossfadeSeconds || !playing || !audio || bridgeRef.current) return;
+    if (!Number.isFinite(audio.duration) || audio.duration <= 0) return;
+
+    const remaining = (audio.duration - audio.currentTime) / (audio.playbackRate || 1);
+    if (remaining > crossfadeSeconds || remaining <= 0.1) return;
+    if (!startBridge(0)) return;
+
+    fadeTimerRef.current = setInterval(() => {
+      const bridge = bridgeRef.current;
+      const current = audioRef.current;
+      if (!bridge || !current) {
+        stopFade();
+        return;
+      }
+      const left = (current.duration - current.currentTime) / (current.playbackRate || 1);
+      // Seeked back out of the fade window
+      if (left > crossfadeSeconds + 1) {
+        cancelBridge();
+        return;
+      }
+      const ratio = Math.min(Math.max(left / crossfadeSeconds, 0), 1);
+      const { volume } = usePlayerStore.getState();
+      current.volume = volume * ratio;
+      bridge.element.volume = volume * (1 - ratio);
+    }, FADE_STEP_MS);
+  }, [audioRef, startBridge, stopFade, cancelBridge]);
+
+  // Called on ended, before advancing to the next chapter
+  const startHandoff = useCallback(() => {
+    stopFade();
+    const bridge = bridgeRef.current;
+    if (bridge) {
+      bridge.element.volume = usePlayerStore.getState().volume;
+      return true;
+    }
+    return startBridge(1);
+  }, [stopFade, startBridge]);
+
+  // Once the main element has loaded the new chapter, line it up with the bridge and take over
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const handleLoadedMetadata = () => {
+      const bridge = bridgeRef.current;
+      if (!bridge || usePlayerStore.getState().currentChapter?.id !== bridge.chapterId) return;
+      // Resuming part-way through the chapter: its saved progress wins over the bridge
+      if (audio.currentTime > 1) {
+        cancelBridge();
+        return;
+      }
+      audio.currentTime = bridge.element.currentTime;
+    };
+
+    const handlePlaying = () => {
+      const bridge = bridgeRef.current;
+      if (!bridge || usePlayerStore.getState().currentChapter?.id !== bridge.chapterId) return;
+      bridgeRef.current = null;
+      bridge.element.pause();
+      bridge.source?.disconnect();
+    };
+
+    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
+    audio.addEventListener('playing', handlePlaying);
+    return () => {
+      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      audio.removeEventListener('playing', handlePlaying);
+    };
+  }, [audioRef, chapterId, cancelBridge]);
+
+  // Pausing mid-handoff keeps the bridge's position for the main element
+  useEffect(() => {
+    const bridge = bridgeRef.current;
+    if (isPlaying || !bridge) return;
+    // The outgoing chapter fires pause right before ended, the handoff is still on
+    if (bridge.chapterId !== chapterId && audioRef.current?.ended) return;
+    if (bridge.chapterId === chapterId) {
+      const position = bridge.element.currentTime;
+      const audio = audioRef.current;
+      if (audio && audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+        audio.currentTime = position;
+      } else {
+        usePlayerStore.getState().setCurrentTime(position);
+      }
+    }
+    cancelBridge();
+  }, [isPlaying, chapterId, audioRef, cancelBridge]);
+
+  // Jumped somewhere other than the bridged chapter
+  useEffect(() => {
+    const bridge = bridgeRef.current;
+    if (bridge && chapterId && bridge.chapterId !== chapterId) {
+      const { currentChapter, chapters } = usePlayerStore.getState();
+      const index = chapters.findIndex(c => c.id === currentChapter?.id);
+      // Still crossfading out of the chapter before the bridged one
+      if (chapters[index + 1]?.id === bridge.chapterId) return;
+      cancelBridge();
+    }
+  }, [chapterId, cancelBridge]);
+
+  useEffect(() => cancelBridge, [cancelBridge]);
+
+  return { maybeStartCrossfade, startHandoff };
+}
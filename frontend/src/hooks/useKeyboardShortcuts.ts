@@ -0,0 +1,58 @@
+import { useEffect } from 'react';
+import { useShortcutStore } from '../store/shortcutStore';
+import { getElectronAPI } from '../utils/env';
+import {
+  GLOBAL_SHORTCUT_ACTIONS,
+  dispatchShortcut,
+  eventToShortcut,
+  toGlobalAccelerator
+} from '../utils/shortcuts';
+import type { ShortcutAction } from '../utils/shortcuts';
+
+const isEditableTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+};
+
+/** Route keydown events (and Electron global shortcuts) to registered shortcut handlers */
+export function useKeyboardShortcuts() {
+  const bindings = useShortcutStore(state => state.bindings);
+  const globalEnabled = useShortcutStore(state => state.globalEnabled);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.repeat || isEditableTarget(e.target)) return;
+      // Let buttons keep their native Space/Enter activation
+      if ((e.target as HTMLElement | null)?.tagName === 'BUTTON' && e.key === ' ') return;
+      const shortcut = eventToShortcut(e);
+      if (!shortcut) return;
+      const action = (Object.keys(bindings) as ShortcutAction[]).find(a => bindings[a] === shortcut);
+      if (action && dispatchShortcut(action)) {
+        e.preventDefault();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings]);
+
+  useEffect(() => {
+    const electronAPI = getElectronAPI();
+    if (!electronAPI?.setGlobalShortcuts) return;
+
+    const accelerators: Record<string, string> = {};
+    if (globalEnabled) {
+      for (const action of GLOBAL_SHORTCUT_ACTIONS) {
+        if (bindings[action]) accelerators[action] = toGlobalAccelerator(bindings[action]);
+      }
+    }
+    electronAPI.setGlobalShortcuts(accelerators).then(result => {
+      if (!result.success) console.warn('部分全局快捷键注册失败', result.failed);
+    });
+
+    const unsubscribe = electronAPI.onGlobalShortcut(action => {
+      dispatchShortcut(action as ShortcutAction);
+    });
+    return unsubscribe;
+  }, [bindings, globalEnabled]);
+}
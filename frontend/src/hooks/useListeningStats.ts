@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+import type { RefObject } from 'react';
+import { usePlayerStore } from '../store/playerStore';
+import { useListeningStatsStore, COMPLETED_RATIO } from '../store/listeningStatsStore';
+
+const SAMPLE_INTERVAL_MS = 10000;
+
+/** Sample playback into the local listening statistics while audio is playing */
+export function useListeningStats(audioRef: RefObject<HTMLAudioElement | null>) {
+  const isPlaying = usePlayerStore(state => state.isPlaying);
+  const bookId = usePlayerStore(state => state.currentBook?.id);
+  const chapterId = usePlayerStore(state => state.currentChapter?.id);
+
+  useEffect(() => {
+    if (!isPlaying || !bookId || !chapterId) return;
+
+    // Captured up front so the final sample is attributed to the chapter that was playing
+    const { currentBook, chapters } = usePlayerStore.getState();
+    if (!currentBook) return;
+    let lastWall = Date.now();
+    let lastPosition = audioRef.current?.currentTime ?? 0;
+
+    const sample = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+
+      const now = Date.now();
+      const listened = (now - lastWall) / 1000;
+      const moved = audio.currentTime - lastPosition;
+      lastWall = now;
+      lastPosition = audio.currentTime;
+
+      // Ignore seeks and stalls: only count forward movement a player could plausibly cover
+      if (listened <= 0 || moved <= 0 || moved > listened * 4 + 1) return;
+
+      const stats = useListeningStatsStore.getState();
+      stats.record(currentBook, chapterId, chapters.length, listened, moved);
+      if (audio.duration > 0 && audio.currentTime / audio.duration >= COMPLETED_RATIO) {
+        stats.markChapterCompleted(currentBook.id, chapterId);
+      }
+    };
+
+    const interval = setInterval(sample, SAMPLE_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      sample();
+    };
+  }, [isPlaying, bookId, chapterId, audioRef]);
+}
@@ -0,0 +1,119 @@
+import { useEffect } from 'react';
+import type { RefObject } from 'react';
+import { usePlayerStore } from '../store/playerStore';
+import { skipToNext } from '../store/playQueueStore';
+import { getCoverUrl } from '../utils/image';
+
+// Same step as the on-screen skip buttons
+const SEEK_SECONDS = 15;
+
+/**
+ * Bridge the player to the Media Session API so media keys, headset buttons
+ * and the OS now-playing overlay control playback.
+ */
+export function useMediaSession(audioRef: RefObject<HTMLAudioElement | null>) {
+  const currentBook = usePlayerStore(state => state.currentBook);
+  const currentChapter = usePlayerStore(state => state.currentChapter);
+  const isPlaying = usePlayerStore(state => state.isPlaying);
+  const duration = usePlayerStore(state => state.duration);
+  const playbackSpeed = usePlayerStore(state => state.playbackSpeed);
+
+  // Metadata
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || !currentBook || !currentChapter) return;
+
+    const coverUrl = getCoverUrl(currentBook.coverUrl, currentBook.libraryId, currentBook.id);
+    const artwork = coverUrl
+      ? [{ src: new URL(coverUrl, window.location.href).href, sizes: '512x512' }]
+      : [];
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: currentChapter.title,
+      artist: currentBook.narrator || currentBook.author || '',
+      album: currentBook.title,
+      artwork
+    });
+  }, [currentBook, currentChapter]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+  }, [isPlaying]);
+
+  // Action handlers, wired to the same store actions as the on-screen controls
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    const session = navigator.mediaSession;
+    const { setIsPlaying, prevChapter } = usePlayerStore.getState();
+
+    // Seeks go through the store so transcoded streams are reloaded at the target
+    const seekToClamped = (time: number) => {
+      const { duration: total, seekTo } = usePlayerStore.getState();
+      seekTo(Math.min(Math.max(time, 0), total > 0 ? total : Infinity));
+    };
+    const seekBy = (offset: number) => seekToClamped(usePlayerStore.getState().currentTime + offset);
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => setIsPlaying(true)],
+      ['pause', () => setIsPlaying(false)],
+      ['stop', () => setIsPlaying(false)],
+      ['seekbackward', (details) => seekBy(-(details.seekOffset || SEEK_SECONDS))],
+      ['seekforward', (details) => seekBy(details.seekOffset || SEEK_SECONDS)],
+      ['previoustrack', () => prevChapter()],
+      ['nexttrack', () => { skipToNext(); }],
+      ['seekto', (details) => {
+        if (details.seekTime !== undefined) seekToClamped(details.seekTime);
+      }]
+    ];
+
+    for (const [action, handler] of handlers) {
+      try {
+        session.setActionHandler(action, handler);
+      } catch {
+        // Action not supported by this browser
+      }
+    }
+
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          session.setActionHandler(action, null);
+        } catch {
+          // Ignore
+        }
+      }
+    };
+  }, []);
+
+  // Position state, rescaled by the current playback speed. The store holds the
+  // chapter position; a transcoded stream's own clock starts at the seek offset
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!('mediaSession' in navigator) || !audio || !navigator.mediaSession.setPositionState) return;
+
+    const updatePositionState = () => {
+      const { currentTime } = usePlayerStore.getState();
+      const total = duration > 0 ? duration : audio.duration;
+      if (!Number.isFinite(total) || total <= 0) return;
+      try {
+        navigator.mediaSession.setPositionState({
+          duration: total,
+          playbackRate: playbackSpeed,
+          position: Math.min(Math.max(currentTime, 0), total)
+        });
+      } catch (err) {
+        console.warn('更新媒体会话进度失败', err);
+      }
+    };
+
+    updatePositionState();
+    audio.addEventListener('seeked', updatePositionState);
+    audio.addEventListener('loadedmetadata', updatePositionState);
+    audio.addEventListener('ratechange', updatePositionState);
+    return () => {
+      audio.removeEventListener('seeked', updatePositionState);
+      audio.removeEventListener('loadedmetadata', updatePositionState);
+      audio.removeEventListener('ratechange', updatePositionState);
+    };
+  }, [audioRef, duration, playbackSpeed, isPlaying, currentChapter?.id]);
+}
@@ -0,0 +1,32 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { useProgressQueueStore } from '../store/progressQueueStore';
+
+type SendProgress = (bookId: string, chapterId: string, position: number) => void;
+
+/** Replays queued offline progress when the connection comes back */
+export function useOfflineProgressSync(wsSendProgress?: SendProgress, isWsConnected = false) {
+  const token = useAuthStore(state => state.token);
+  const flush = useProgressQueueStore(state => state.flush);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const sendViaWs = wsSendProgress && isWsConnected
+      ? (bookId: string, chapterId: string, position: number) => {
+          wsSendProgress(bookId, chapterId, position);
+          return true;
+        }
+      : undefined;
+
+    const handleOnline = () => {
+      flush(sendViaWs).catch(err => console.error('离线进度同步失败', err));
+    };
+
+    // Flush anything left over from a previous offline session
+    handleOnline();
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [token, flush, wsSendProgress, isWsConnected]);
+}
@@ -0,0 +1,93 @@
+import { useEffect } from 'react';
+import type { RefObject } from 'react';
+import { usePlayerStore } from '../store/playerStore';
+import { useRepeatStore } from '../store/repeatStore';
+import { getAudioGraph, readMeanSquare } from '../utils/audioGraph';
+
+const TICK_MS = 100;
+const SILENCE_THRESHOLD_DB = -45;
+// A pause this long after speech ends a sentence
+const SENTENCE_GAP_TICKS = 4;
+// Ignore breaths and short hesitations
+const MIN_SENTENCE_SECONDS = 1;
+// How close a jump has to land to the replay target to count as our own
+const OWN_SEEK_TOLERANCE = 1;
+
+/**
+ * Replay each sentence several times for language practice. Sentences are
+ * split at silent gaps measured on the Web Audio analyser tap.
+ */
+export function useSentenceRepeat(audioRef: RefObject<HTMLAudioElement | null>) {
+  const enabled = useRepeatStore(state => state.sentenceRepeat);
+  const count = useRepeatStore(state => state.sentenceRepeatCount);
+  const isPlaying = usePlayerStore(state => state.isPlaying);
+  const chapterId = usePlayerStore(state => state.currentChapter?.id);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !enabled || !isPlaying || count < 2) return;
+
+    const graph = getAudioGraph(audio);
+    if (!graph) return;
+    if (graph.context.state === 'suspended') {
+      graph.context.resume().catch(err => console.warn('恢复音频上下文失败', err));
+    }
+
+    // Chapter position; on transcoded streams the element's own clock restarts at each seek
+    const chapterTime = () => usePlayerStore.getState().currentTime;
+    const buffer = new Float32Array(graph.analyser.fftSize);
+    let sentenceStart = chapterTime();
+    let plays = 1;
+    let heardSpeech = false;
+    let silentTicks = 0;
+    let ownSeek: number | null = null;
+
+    // Jumping elsewhere starts a new sentence there. Transcoded streams reload
+    // from the server instead of seeking, so a new load counts as a jump too
+    const handleJump = () => {
+      const time = chapterTime();
+      if (ownSeek !== null && Math.abs(time - ownSeek) < OWN_SEEK_TOLERANCE) {
+        ownSeek = null;
+        return;
+      }
+      sentenceStart = time;
+      plays = 1;
+      heardSpeech = false;
+      silentTicks = 0;
+    };
+    audio.addEventListener('seeked', handleJump);
+    audio.addEventListener('loadstart', handleJump);
+
+    const timer = setInterval(() => {
+      if (audio.paused || audio.seeking) return;
+      const meanSquare = readMeanSquare(graph, buffer);
+      const silent = 10 * Math.log10(Math.max(meanSquare, 1e-12)) < SILENCE_THRESHOLD_DB;
+      if (!silent) {
+        heardSpeech = true;
+        silentTicks = 0;
+        return;
+      }
+
+      silentTicks++;
+      if (!heardSpeech || silentTicks < SENTENCE_GAP_TICKS || chapterTime() - sentenceStart < MIN_SENTENCE_SECONDS) {
+        return;
+      }
+      heardSpeech = false;
+      silentTicks = 0;
+      if (plays < count) {
+        plays++;
+        ownSeek = sentenceStart;
+        usePlayerStore.getState().seekTo(sentenceStart);
+      } else {
+        plays = 1;
+        sentenceStart = chapterTime();
+      }
+    }, TICK_MS);
+
+    return () => {
+      clearInterval(timer);
+      audio.removeEventListener('seeked', handleJump);
+      audio.removeEventListener('loadstart', handleJump);
+    };
+  }, [audioRef, enabled, count, isPlaying, chapterId]);
+}
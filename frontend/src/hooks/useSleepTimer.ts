@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { usePlayerStore } from '../store/playerStore';
+import { useSleepTimerStore } from '../store/sleepTimerStore';
+
+// Sum of acceleration deltas (m/s²) between two readings that counts as a shake
+const SHAKE_THRESHOLD = 25;
+// Activity only extends the timer when it is about to stop
+const ACTIVITY_WINDOW_SECONDS = 60;
+
+/**
+ * Drives the sleep timer: countdown, stop, volume fade before stopping,
+ * auto-start with the user's default and shake/activity to extend.
+ * Chapter-based stops are applied by the player via `consumeChapter`.
+ */
+export function useSleepTimer(audioRef: RefObject<HTMLAudioElement | null>) {
+  const mode = useSleepTimerStore(state => state.mode);
+  const fadeSeconds = useSleepTimerStore(state => state.fadeSeconds);
+  const extendOnActivity = useSleepTimerStore(state => state.extendOnActivity);
+  const isPlaying = usePlayerStore(state => state.isPlaying);
+  const volume = usePlayerStore(state => state.volume);
+  const isFadedRef = useRef(false);
+
+  const restoreVolume = useCallback(() => {
+    if (isFadedRef.current && audioRef.current) {
+      audioRef.current.volume = usePlayerStore.getState().volume;
+    }
+    isFadedRef.current = false;
+  }, [audioRef]);
+
+  // Seconds of playback left before the timer stops, null when not known yet
+  const getSecondsLeft = useCallback(() => {
+    const timer = useSleepTimerStore.getState();
+    if (timer.mode === 'time') return timer.tick();
+    if (timer.mode === 'chapters' && timer.chaptersLeft === 1) {
+      const audio = audioRef.current;
+      if (!audio || !Number.isFinite(audio.duration)) return null;
+      const { currentBook, playbackSpeed } = usePlayerStore.getState();
+      const end = audio.duration - (currentBook?.skipOutro || 0);
+      return Math.max(0, (end - audio.currentTime) / (playbackSpeed || 1));
+    }
+    return null;
+  }, [audioRef]);
+
+  // Freeze the countdown while paused, auto-start the default timer on play
+  useEffect(() => {
+    const timer = useSleepTimerStore.getState();
+    if (!isPlaying) {
+      timer.pause();
+      return;
+    }
+    if (timer.mode === null && timer.defaultMinutes > 0 && !timer.autoStartSuppressed) {
+      timer.startTimer(timer.defaultMinutes);
+    } else {
+      timer.resume();
+    }
+  }, [isPlaying]);
+
+  // Countdown and fade
+  useEffect(() => {
+    if (!mode || !isPlaying) return;
+
+    const interval = setInterval(() => {
+      const left = getSecondsLeft();
+      if (mode === 'time' && left === 0) {
+        restoreVolume();
+        useSleepTimerStore.getState().cancel();
+        usePlayerStore.getState().setIsPlaying(false);
+        return;
+      }
+      const audio = audioRef.current;
+      if (audio && left !== null && fadeSeconds > 0 && left < fadeSeconds) {
+        audio.volume = volume * Math.max(0, left / fadeSeconds);
+        isFadedRef.current = true;
+      } else {
+        restoreVolume();
+      }
+    }, 500);
+
+    return () => clearInterval(interval);
+  }, [mode, isPlaying, fadeSeconds, volume, audioRef, getSecondsLeft, restoreVolume]);
+
+  useEffect(() => {
+    if (!mode) restoreVolume();
+  }, [mode, restoreVolume]);
+
+  // Shake the device or interact with the app near the end to keep listening
+  useEffect(() => {
+    if (!mode || !isPlaying || !extendOnActivity) return;
+
+    const extendIfEnding = () => {
+      const left = getSecondsLeft();
+      if (left === null || left > Math.max(fadeSeconds, ACTIVITY_WINDOW_SECONDS)) return;
+      useSleepTimerStore.getState().extend();
+      restoreVolume();
+    };
+
+    let last: { x: number; y: number; z: number } | null = null;
+    const handleMotion = (e: DeviceMotionEvent) => {
+      const acc = e.accelerationIncludingGravity;
+      if (!acc || acc.x === null || acc.y === null || acc.z === null) return;
+      const current = { x: acc.x, y: acc.y, z: acc.z };
+      if (last) {
+        const delta = Math.abs(current.x - last.x) + Math.abs(current.y - last.y) + Math.abs(current.z - last.z);
+        if (delta > SHAKE_THRESHOLD) extendIfEnding();
+      }
+      last = current;
+    };
+
+    window.addEventListener('devicemotion', handleMotion);
+    window.addEventListener('pointerdown', extendIfEnding);
+    window.addEventListener('keydown', extendIfEnding);
+    return () => {
+      window.removeEventListener('devicemotion', handleMotion);
+      window.removeEventListener('pointerdown', extendIfEnding);
+      window.removeEventListener('keydown', extendIfEnding);
+    };
+  }, [mode, isPlaying, extendOnActivity, fadeSeconds, getSecondsLeft, restoreVolume]);
+}
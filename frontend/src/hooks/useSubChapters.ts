@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+import type { Chapter, SubChapter } from '../types';
+import { useSubChapterStore } from '../store/subChapterStore';
+
+const EMPTY: SubChapter[] = [];
+
+/** Sub-chapters of a chapter, read from the file on first use when `load` is set */
+export function useSubChapters(chapter: Chapter | null | undefined, load = true) {
+  const parsed = useSubChapterStore(state => chapter ? state.subChapters[chapter.id] : undefined);
+  const loadSubChapters = useSubChapterStore(state => state.loadSubChapters);
+
+  useEffect(() => {
+    if (chapter && load) {
+      loadSubChapters(chapter);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [chapter?.id, load, loadSubChapters]);
+
+  if (chapter?.subChapters && chapter.subChapters.length > 0) return chapter.subChapters;
+  return parsed || EMPTY;
+}
@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import type { RefObject } from 'react';
+import { usePlayerStore } from '../store/playerStore';
+import { getAudioGraph, hasAudioGraph } from '../utils/audioGraph';
+
+/**
+ * Apply the playback profile's gain. The element is only routed through Web Audio
+ * once a gain other than 1 is needed, plain playback keeps the native pipeline.
+ */
+export function useVolumeGain(audioRef: RefObject<HTMLAudioElement | null>) {
+  const volumeGain = usePlayerStore(state => state.volumeGain);
+  const isPlaying = usePlayerStore(state => state.isPlaying);
+  const chapterId = usePlayerStore(state => state.currentChapter?.id);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || (volumeGain === 1 && !hasAudioGraph(audio))) return;
+
+    const graph = getAudioGraph(audio);
+    if (!graph) return;
+    graph.gain.gain.value = volumeGain;
+    // Contexts created before a user gesture start suspended
+    if (isPlaying && graph.context.state === 'suspended') {
+      graph.context.resume().catch(err => console.warn('恢复音频上下文失败', err));
+    }
+  }, [audioRef, volumeGain, isPlaying, chapterId]);
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { getWaveform } from '../utils/waveform';
+import { isCachedSource } from '../utils/download';
+
+/** Waveform levels for a chapter, null while loading, disabled or unsupported */
+export function useWaveform(chapterId: string | undefined, url: string | null, enabled: boolean) {
+  const [result, setResult] = useState<{ chapterId: string; levels: number[] | null } | null>(null);
+
+  const isCached = url !== null && isCachedSource(url);
+
+  useEffect(() => {
+    if (!enabled || !chapterId || !url) return;
+    let cancelled = false;
+    getWaveform(chapterId, url).then(levels => {
+      if (!cancelled) setResult({ chapterId, levels });
+    });
+    return () => {
+      cancelled = true;
+    };
+    // The URL changes with retries and tokens, the chapter and whether it is
+    // downloaded identify the audio
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [chapterId, enabled, isCached]);
+
+  return enabled && result && result.chapterId === chapterId ? result.levels : null;
+}
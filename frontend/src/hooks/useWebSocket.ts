@@ -1,6 +1,7 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { useAuthStore } from '../store/authStore';
 import { usePlayerStore } from '../store/playerStore';
+import { expireSession, isTokenExpired, refreshSession } from '../api/session';
 
 interface ProgressUpdate {
   type: 'progress_updated';
@@ -50,8 +51,10 @@ export function useWebSocket() {
     try {
       const urlWithToken = `${wsUrl}?token=${encodeURIComponent(token)}`;
       const ws = new WebSocket(urlWithToken);
+      let opened = false;
 
       ws.onopen = () => {
+        opened = true;
         setIsConnected(true);
         reconnectAttemptsRef.current = 0;
 
@@ -78,6 +81,18 @@ export function useWebSocket() {
         }
 
         if (reconnectAttemptsRef.current < maxReconnectAttempts) {
+          // Handshake rejected with an expired token: the refreshed token reconnects
+          if (!opened && isTokenExpired(token) && navigator.onLine) {
+            refreshSession()
+              .then(newToken => {
+                if (!newToken) expireSession();
+              })
+              .catch(() => {
+                reconnectTimerRef.current = setTimeout(() => connectRef.current(), 5000);
+              });
+            return;
+          }
+
           const delay = Math.min(
             1000 * Math.pow(2, reconnectAttemptsRef.current),
             30000
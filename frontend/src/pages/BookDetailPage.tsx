@@ -2,7 +2,8 @@ import React, { useEffect, useState, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import apiClient from '../api/client';
 import type { Book, Chapter } from '../types';
-import { usePlayerStore } from '../store/playerStore';
+import { usePlayerStore, getBookSpeed } from '../store/playerStore';
+import { scaleBySpeed } from '../utils/playbackSpeed';
 
 import ChapterManagerModal from '../components/ChapterManagerModal';
 import ScrapeDiffModal from '../components/ScrapeDiffModal';
@@ -26,12 +27,26 @@ import {
   Settings,
   RefreshCw,
   Wand2,
-  FileSignature
+  FileSignature,
+  Download,
+  CheckCircle2,
+  Bookmark,
+  ListPlus
 } from 'lucide-react';
 import { getCoverUrl } from '../utils/image';
 import { useAuthStore } from '../store/authStore';
 import ExpandableTitle from '../components/ExpandableTitle';
 import { setAlpha, toSolidColor, isLight, isTooLight } from '../utils/color';
+import { getDownloadKey, useDownloadStore } from '../store/downloadStore';
+import { isElectron } from '../utils/env';
+import DownloadQueueStatus from '../components/DownloadQueueStatus';
+import BookmarkList from '../components/BookmarkList';
+import SubChapterList from '../components/SubChapterList';
+import { useSubChapterStore } from '../store/subChapterStore';
+import { useBookmarkStore } from '../store/bookmarkStore';
+import { usePlayQueueStore } from '../store/playQueueStore';
+
+const NEXT_CHAPTERS_COUNT = 10;
 
 const BookDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -146,6 +161,31 @@ const BookDetailPage: React.FC = () => {
 
   const isPlaying = usePlayerStore((state) => state.isPlaying);
   const playChapter = usePlayerStore((state) => state.playChapter);
+  // Chapter durations are shown as listening time at the speed this book plays at
+  const currentSpeed = usePlayerStore((state) => (state.currentBook?.id === id ? state.playbackSpeed : null));
+  const listSpeed = currentSpeed ?? (book ? getBookSpeed(book) : 1);
+  const serverUrl = useAuthStore((state) => state.serverUrl);
+  const downloadedChapters = useDownloadStore((state) => (id ? state.books[getDownloadKey(serverUrl, id)]?.chapters : undefined));
+  const downloadTasks = useDownloadStore((state) => state.tasks);
+  const downloadChapter = useDownloadStore((state) => state.downloadChapter);
+  const enqueueBook = useDownloadStore((state) => state.enqueueBook);
+  const enqueueChapter = usePlayQueueStore((state) => state.enqueueChapter);
+  const [showDownloadMenu, setShowDownloadMenu] = useState(false);
+  const bookmarkCount = useBookmarkStore((state) => (id ? state.bookmarks[id]?.length ?? 0 : 0));
+  const fetchBookmarks = useBookmarkStore((state) => state.fetchBookmarks);
+  const knownSubChapters = useSubChapterStore((state) => state.subChapters);
+  const loadSubChapters = useSubChapterStore((state) => state.loadSubChapters);
+
+  // Single-file books: read the embedded chapter list or CUE sheet up front
+  useEffect(() => {
+    if (chapters.length === 1 && navigator.onLine) {
+      loadSubChapters(chapters[0]);
+    }
+  }, [chapters, loadSubChapters]);
+
+  useEffect(() => {
+    if (id && navigator.onLine) fetchBookmarks(id);
+  }, [id, fetchBookmarks]);
 
   useEffect(() => {
     if (book) {
@@ -205,6 +245,22 @@ const BookDetailPage: React.FC = () => {
     return null;
   }, [book, chapters, currentChapter]);
 
+  const handleBulkDownload = async (mode: 'all' | 'next') => {
+    if (!book) return;
+    setShowDownloadMenu(false);
+    let targets = chapters;
+    if (mode === 'next') {
+      const start = resumeChapter ? Math.max(mainChapters.findIndex(c => c.id === resumeChapter.id), 0) : 0;
+      targets = mainChapters.slice(start, start + NEXT_CHAPTERS_COUNT);
+    }
+    const result = await enqueueBook(book, targets);
+    if (!result.success) {
+      alert(result.error || '添加下载任务失败');
+    } else if (result.queued === 0) {
+      alert('所选章节均已下载');
+    }
+  };
+
   // Auto-highlight current chapter logic (without scroll)
   useEffect(() => {
     if (book?.id !== id) return; 
@@ -670,6 +726,35 @@ const BookDetailPage: React.FC = () => {
                   <Heart size={20} fill={isFavorite ? "currentColor" : "none"} />
                   收藏
                 </button>
+
+                {isElectron && (
+                  <div className="relative flex-1 min-w-0">
+                    <button
+                      onClick={() => setShowDownloadMenu(!showDownloadMenu)}
+                      className="w-full px-3 sm:px-4 py-3 rounded-2xl border bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-500 dark:text-slate-300 hover:text-primary-600 transition-all active:scale-95 flex items-center justify-center gap-2 font-bold text-sm"
+                      title="离线下载"
+                    >
+                      <Download size={20} />
+                      下载
+                    </button>
+                    {showDownloadMenu && (
+                      <div className="absolute left-0 top-full mt-2 w-48 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-2xl shadow-xl z-50 py-2 animate-in zoom-in-95 duration-200">
+                        <button
+                          onClick={() => handleBulkDownload('all')}
+                          className="w-full px-4 py-2.5 text-left text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800"
+                        >
+                          下载全部章节
+                        </button>
+                        <button
+                          onClick={() => handleBulkDownload('next')}
+                          className="w-full px-4 py-2.5 text-left text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800"
+                        >
+                          {resumeChapter ? `从当前章节下载 ${NEXT_CHAPTERS_COUNT} 章` : `下载前 ${NEXT_CHAPTERS_COUNT} 章`}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
                 
                 {user?.role === 'admin' && (
                   <>
@@ -701,6 +786,8 @@ const BookDetailPage: React.FC = () => {
                   </>
                 )}
               </div>
+
+              {isElectron && <DownloadQueueStatus bookId={book.id} />}
             </div>
 
             <div 
@@ -831,88 +918,148 @@ const BookDetailPage: React.FC = () => {
             const actualIndex = currentGroupIndex * chaptersPerGroup + index;
             const isCurrent = currentChapter?.id === chapter.id;
             const isActive = isCurrent || highlightedChapterId === chapter.id;
+            const nestedChapters = chapter.subChapters?.length ? chapter.subChapters : knownSubChapters[chapter.id];
 
             return (
-              <div 
-                key={chapter.id}
-                id={`chapter-${chapter.id}`}
-                onClick={() => playChapter(book!, currentChapters, chapter)}
-                className={`group flex items-center justify-between p-4 rounded-2xl cursor-pointer transition-all border ${
-                  isActive 
-                    ? 'bg-opacity-10 border-opacity-20' 
-                    : 'bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 hover:border-primary-200 dark:hover:border-primary-800'
-                }`}
-                style={isActive && effectiveThemeColor ? { 
-                  backgroundColor: setAlpha(effectiveThemeColor, 0.1),
-                  borderColor: setAlpha(effectiveThemeColor, 0.3),
-                } : {}}
-              >
+              <div key={chapter.id}>
                 <div 
-                  className="flex items-center gap-3 sm:gap-4 min-w-0 flex-1 cursor-pointer"
+                  id={`chapter-${chapter.id}`}
+                  onClick={() => playChapter(book!, currentChapters, chapter)}
+                  className={`group flex items-center justify-between p-4 rounded-2xl cursor-pointer transition-all border ${
+                    isActive 
+                      ? 'bg-opacity-10 border-opacity-20' 
+                      : 'bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 hover:border-primary-200 dark:hover:border-primary-800'
+                  }`}
+                  style={isActive && effectiveThemeColor ? { 
+                    backgroundColor: setAlpha(effectiveThemeColor, 0.1),
+                    borderColor: setAlpha(effectiveThemeColor, 0.3),
+                  } : {}}
                 >
                   <div 
-                    className={`w-10 h-10 sm:w-12 sm:h-12 rounded-xl flex items-center justify-center font-bold text-base sm:text-lg shrink-0 ${
-                      isActive ? `text-white ${!effectiveThemeColor ? 'bg-primary-600' : ''}` : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400'
-                    }`}
-                    style={isActive && effectiveThemeColor ? { 
-                      backgroundColor: toSolidColor(effectiveThemeColor),
-                      color: isLight(effectiveThemeColor) ? '#475569' : '#ffffff'
-                    } : {}}
+                    className="flex items-center gap-3 sm:gap-4 min-w-0 flex-1 cursor-pointer"
                   >
-                    {chapter.chapter_index || (actualIndex + 1)}
-                  </div>
-                  <div className="min-w-0">
-                    <p 
-                      className={`font-bold truncate ${isActive ? '' : 'text-slate-900 dark:text-white'}`}
-                      style={isActive && effectiveThemeColor ? { color: toSolidColor(effectiveThemeColor) } : {}}
+                    <div 
+                      className={`w-10 h-10 sm:w-12 sm:h-12 rounded-xl flex items-center justify-center font-bold text-base sm:text-lg shrink-0 ${
+                        isActive ? `text-white ${!effectiveThemeColor ? 'bg-primary-600' : ''}` : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400'
+                      }`}
+                      style={isActive && effectiveThemeColor ? { 
+                        backgroundColor: toSolidColor(effectiveThemeColor),
+                        color: isLight(effectiveThemeColor) ? '#475569' : '#ffffff'
+                      } : {}}
                     >
-                      {chapter.title}
-                    </p>
-                    <div className="flex items-center gap-2 mt-1">
-                      <div className="flex items-center gap-1 text-xs text-slate-400 font-medium">
-                        <Clock size={12} />
-                        {formatDuration(chapter.duration)}
-                      </div>
-                      {getChapterProgressText(chapter) && (
-                        <div 
-                          className={`text-[10px] font-bold px-1.5 py-0.5 rounded-md whitespace-nowrap ${
-                            getChapterProgressText(chapter) === '已播完' 
-                              ? 'bg-green-50 text-green-500 dark:bg-green-900/20' 
-                              : 'bg-primary-50 text-primary-600 dark:bg-primary-900/20'
-                          }`}
-                        >
-                          {getChapterProgressText(chapter)}
+                      {chapter.chapter_index || (actualIndex + 1)}
+                    </div>
+                    <div className="min-w-0">
+                      <p 
+                        className={`font-bold truncate ${isActive ? '' : 'text-slate-900 dark:text-white'}`}
+                        style={isActive && effectiveThemeColor ? { color: toSolidColor(effectiveThemeColor) } : {}}
+                      >
+                        {chapter.title}
+                      </p>
+                      <div className="flex items-center gap-2 mt-1">
+                        <div className="flex items-center gap-1 text-xs text-slate-400 font-medium">
+                          <Clock size={12} />
+                          {formatDuration(scaleBySpeed(chapter.duration, listSpeed))}
                         </div>
-                      )}
+                        {getChapterProgressText(chapter) && (
+                          <div 
+                            className={`text-[10px] font-bold px-1.5 py-0.5 rounded-md whitespace-nowrap ${
+                              getChapterProgressText(chapter) === '已播完' 
+                                ? 'bg-green-50 text-green-500 dark:bg-green-900/20' 
+                                : 'bg-primary-50 text-primary-600 dark:bg-primary-900/20'
+                            }`}
+                          >
+                            {getChapterProgressText(chapter)}
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
                 
-                <div className="flex items-center gap-4">
-                  {isCurrent && isPlaying ? (
-                    <div className="flex gap-1 items-end h-5">
-                      <div className={`w-1 animate-music-bar-1 rounded-full ${!effectiveThemeColor ? 'bg-primary-600' : ''}`} style={effectiveThemeColor ? { backgroundColor: toSolidColor(effectiveThemeColor) } : {}}></div>
-                      <div className={`w-1 animate-music-bar-2 rounded-full ${!effectiveThemeColor ? 'bg-primary-600' : ''}`} style={effectiveThemeColor ? { backgroundColor: toSolidColor(effectiveThemeColor) } : {}}></div>
-                      <div className={`w-1 animate-music-bar-3 rounded-full ${!effectiveThemeColor ? 'bg-primary-600' : ''}`} style={effectiveThemeColor ? { backgroundColor: toSolidColor(effectiveThemeColor) } : {}}></div>
-                    </div>
-                  ) : (
-                    <div 
-                      className="w-10 h-10 rounded-full bg-slate-50 dark:bg-slate-800 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all cursor-pointer hover:scale-105"
+                  <div className="flex items-center gap-4">
+                    <button
                       onClick={(e) => {
                         e.stopPropagation();
-                        playChapter(book!, currentChapters, chapter);
+                        enqueueChapter(book!, chapter);
                       }}
+                      className="p-1.5 text-slate-400 hover:text-primary-600 opacity-0 group-hover:opacity-100 transition-all"
+                      title="加入播放队列"
                     >
-                      <Play size={16} className="text-primary-600 ml-1" fill="currentColor" style={effectiveThemeColor ? { color: toSolidColor(effectiveThemeColor) } : {}} />
-                    </div>
-                  )}
+                      <ListPlus size={18} />
+                    </button>
+                    {isElectron && (() => {
+                      const task = downloadTasks[chapter.id];
+                      if (downloadedChapters?.[chapter.id]) {
+                        return (
+                          <div className="text-green-500" title="已下载">
+                            <CheckCircle2 size={18} />
+                          </div>
+                        );
+                      }
+                      if (task?.status === 'downloading') {
+                        return (
+                          <span className="text-[10px] font-bold text-primary-600 w-8 text-center">
+                            {Math.round(task.progress * 100)}%
+                          </span>
+                        );
+                      }
+                      return (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            downloadChapter(book!, chapter);
+                          }}
+                          className={`p-1.5 transition-colors ${task?.status === 'failed' ? 'text-red-500' : 'text-slate-400 hover:text-primary-600'}`}
+                          title={task?.status === 'failed' ? '下载失败，点击重试' : '下载到本地'}
+                        >
+                          <Download size={18} />
+                        </button>
+                      );
+                    })()}
+                    {isCurrent && isPlaying ? (
+                      <div className="flex gap-1 items-end h-5">
+                        <div className={`w-1 animate-music-bar-1 rounded-full ${!effectiveThemeColor ? 'bg-primary-600' : ''}`} style={effectiveThemeColor ? { backgroundColor: toSolidColor(effectiveThemeColor) } : {}}></div>
+                        <div className={`w-1 animate-music-bar-2 rounded-full ${!effectiveThemeColor ? 'bg-primary-600' : ''}`} style={effectiveThemeColor ? { backgroundColor: toSolidColor(effectiveThemeColor) } : {}}></div>
+                        <div className={`w-1 animate-music-bar-3 rounded-full ${!effectiveThemeColor ? 'bg-primary-600' : ''}`} style={effectiveThemeColor ? { backgroundColor: toSolidColor(effectiveThemeColor) } : {}}></div>
+                      </div>
+                    ) : (
+                      <div 
+                        className="w-10 h-10 rounded-full bg-slate-50 dark:bg-slate-800 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all cursor-pointer hover:scale-105"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          playChapter(book!, currentChapters, chapter);
+                        }}
+                      >
+                        <Play size={16} className="text-primary-600 ml-1" fill="currentColor" style={effectiveThemeColor ? { color: toSolidColor(effectiveThemeColor) } : {}} />
+                      </div>
+                    )}
+                  </div>
                 </div>
+                {nestedChapters && nestedChapters.length > 0 && (
+                  <SubChapterList
+                    book={book!}
+                    chapters={currentChapters}
+                    chapter={chapter}
+                    subChapters={nestedChapters}
+                  />
+                )}
               </div>
             );
           })}
         </div>
       </div>
 
+      {/* Bookmarks */}
+      {bookmarkCount > 0 && (
+        <div className="bg-white dark:bg-slate-900 rounded-3xl p-4 md:p-6 shadow-sm border border-slate-100 dark:border-slate-800">
+          <h2 className="text-xl md:text-2xl font-bold dark:text-white flex items-center gap-2 mb-4">
+            <Bookmark size={24} className="text-primary-600" />
+            书签与笔记 ({bookmarkCount})
+          </h2>
+          <BookmarkList book={book} chapters={chapters} />
+        </div>
+      )}
+
       {/* Chapter Manager Modal */}
       {isChapterManagerOpen && book && (
         <ChapterManagerModal
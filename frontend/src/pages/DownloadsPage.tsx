@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Download,
+  Play,
+  Trash2,
+  RefreshCw,
+  ChevronDown,
+  ChevronUp,
+  Clock,
+  WifiOff,
+  Loader2
+} from 'lucide-react';
+import { useDownloadStore } from '../store/downloadStore';
+import type { DownloadedBook } from '../store/downloadStore';
+import { usePlayerStore } from '../store/playerStore';
+import { useAuthStore } from '../store/authStore';
+import { getCoverUrl } from '../utils/image';
+import { getElectronAPI } from '../utils/env';
+import { getCachedCoverUrl } from '../utils/download';
+import { formatSize } from '../utils/size';
+import DownloadQueueStatus from '../components/DownloadQueueStatus';
+
+const formatDuration = (seconds: number) => {
+  if (!seconds || seconds <= 0) return '0:00';
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  if (h > 0) {
+    return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  }
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const getSortedChapters = (entry: DownloadedBook) => {
+  return Object.values(entry.chapters)
+    .map(c => c.chapter)
+    .sort((a, b) => (a.chapterIndex || 0) - (b.chapterIndex || 0));
+};
+
+const DownloadsPage: React.FC = () => {
+  const books = useDownloadStore(state => state.books);
+  const tasks = useDownloadStore(state => state.tasks);
+  const queues = useDownloadStore(state => state.queues);
+  const { removeBook, removeChapter, redownloadChapter, cacheCover, syncWithDisk } = useDownloadStore();
+  const serverUrl = useAuthStore(state => state.serverUrl);
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const currentChapter = usePlayerStore(state => state.currentChapter);
+  const playChapter = usePlayerStore(state => state.playChapter);
+  const [expandedBookId, setExpandedBookId] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const isElectron = !!getElectronAPI();
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const downloadedBooks = useMemo(() => {
+    return Object.values(books)
+      .filter(entry => entry.serverUrl === serverUrl)
+      .sort((a, b) => a.book.title.localeCompare(b.book.title, 'zh-CN'));
+  }, [books, serverUrl]);
+
+  const totalSize = useMemo(() => {
+    return downloadedBooks.reduce((sum, entry) => (
+      sum + Object.values(entry.chapters).reduce((s, c) => s + c.size, 0)
+    ), 0);
+  }, [downloadedBooks]);
+
+  useEffect(() => {
+    syncWithDisk().catch(err => console.error('同步离线文件失败', err));
+  }, [syncWithDisk, serverUrl]);
+
+  // Cache missing covers while we still have a connection
+  useEffect(() => {
+    if (!isOnline) return;
+    downloadedBooks
+      .filter(entry => !entry.coverPath && entry.book.coverUrl)
+      .forEach(entry => cacheCover(entry.book.id));
+  }, [downloadedBooks, isOnline, cacheCover]);
+
+  const getCoverSrc = (entry: DownloadedBook) => {
+    if (entry.coverPath) return getCachedCoverUrl(entry.book.id);
+    return getCoverUrl(entry.book.coverUrl, entry.book.libraryId, entry.book.id);
+  };
+
+  const handlePlayBook = (entry: DownloadedBook) => {
+    const chapters = getSortedChapters(entry);
+    if (chapters.length === 0) return;
+    const resume = currentChapter && chapters.find(c => c.id === currentChapter.id);
+    playChapter(entry.book, chapters, resume || chapters[0]);
+  };
+
+  const handleRemoveBook = async (entry: DownloadedBook) => {
+    if (!window.confirm(`确定要删除《${entry.book.title}》的所有离线章节吗？`)) return;
+    await removeBook(entry.book.id);
+  };
+
+  if (!isElectron) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-8">
+        <p className="text-sm text-slate-500">离线下载仅在桌面客户端中可用</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 min-h-full flex flex-col p-4 sm:p-6 md:p-8 animate-in fade-in duration-500">
+      <div className="flex-1 space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-slate-900 dark:text-white flex items-center gap-3">
+              <Download className="text-primary-600" />
+              离线下载
+            </h1>
+            <p className="text-sm md:text-base text-slate-500 dark:text-slate-400 mt-1">
+              {downloadedBooks.length} 部作品 · {formatSize(totalSize)}
+            </p>
+          </div>
+          {!isOnline && (
+            <div className="flex items-center gap-2 self-start text-amber-600 font-bold bg-amber-50 dark:bg-amber-900/20 px-4 py-2 rounded-xl text-sm">
+              <WifiOff size={16} />
+              离线模式
+            </div>
+          )}
+        </div>
+
+        {Object.keys(queues).length > 0 && (
+          <div className="space-y-2">
+            <h2 className="text-sm font-bold text-slate-500 dark:text-slate-400">下载队列</h2>
+            {Object.keys(queues).map(bookId => (
+              <DownloadQueueStatus key={bookId} bookId={bookId} showTitle />
+            ))}
+          </div>
+        )}
+
+        {downloadedBooks.length > 0 ? (
+          <div className="space-y-4">
+            {downloadedBooks.map(entry => {
+              const chapters = getSortedChapters(entry);
+              const isExpanded = expandedBookId === entry.book.id;
+              const bookSize = Object.values(entry.chapters).reduce((s, c) => s + c.size, 0);
+
+              return (
+                <div
+                  key={entry.book.id}
+                  className="bg-white dark:bg-slate-900 rounded-3xl border border-slate-100 dark:border-slate-800 shadow-sm overflow-hidden"
+                >
+                  <div className="flex items-center gap-4 p-4">
+                    <img
+                      src={getCoverSrc(entry)}
+                      alt={entry.book.title}
+                      referrerPolicy="no-referrer"
+                      className="w-16 h-20 sm:w-20 sm:h-24 rounded-xl object-cover shadow-md shrink-0 bg-slate-100 dark:bg-slate-800"
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).src = 'https://placehold.co/300x400?text=No+Cover';
+                      }}
+                    />
+                    <div className="flex-1 min-w-0">
+                      {isAuthenticated && isOnline ? (
+                        <Link to={`/book/${entry.book.id}`} className="font-bold text-slate-900 dark:text-white truncate block hover:text-primary-600">
+                          {entry.book.title}
+                        </Link>
+                      ) : (
+                        <p className="font-bold text-slate-900 dark:text-white truncate">{entry.book.title}</p>
+                      )}
+                      <p className="text-xs text-slate-500 truncate mt-1">{entry.book.author || '未知作者'}</p>
+                      <p className="text-xs text-slate-400 mt-1">{chapters.length} 章 · {formatSize(bookSize)}</p>
+                    </div>
+                    <div className="flex items-center gap-1 sm:gap-2 shrink-0">
+                      <button
+                        onClick={() => handlePlayBook(entry)}
+                        className="w-10 h-10 rounded-full bg-primary-600 hover:bg-primary-700 text-white flex items-center justify-center shadow-lg shadow-primary-500/30 transition-all active:scale-95"
+                        title="播放"
+                      >
+                        <Play size={18} fill="currentColor" className="ml-0.5" />
+                      </button>
+                      <button
+                        onClick={() => handleRemoveBook(entry)}
+                        className="p-2 text-slate-400 hover:text-red-500 transition-colors"
+                        title="删除整本"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                      <button
+                        onClick={() => setExpandedBookId(isExpanded ? null : entry.book.id)}
+                        className="p-2 text-slate-400 hover:text-primary-600 transition-colors"
+                        title={isExpanded ? '收起' : '查看章节'}
+                      >
+                        {isExpanded ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
+                      </button>
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="border-t border-slate-100 dark:border-slate-800 p-2 sm:p-4 space-y-2">
+                      {chapters.map(chapter => {
+                        const download = entry.chapters[chapter.id];
+                        const task = tasks[chapter.id];
+                        const isCurrent = currentChapter?.id === chapter.id;
+
+                        return (
+                          <div
+                            key={chapter.id}
+                            className={`flex items-center justify-between gap-3 p-3 rounded-2xl border transition-all ${
+                              isCurrent
+                                ? 'bg-primary-50 dark:bg-primary-900/20 border-primary-100 dark:border-primary-900/30'
+                                : 'border-transparent hover:bg-slate-50 dark:hover:bg-slate-800/50'
+                            }`}
+                          >
+                            <div
+                              className="flex-1 min-w-0 cursor-pointer"
+                              onClick={() => playChapter(entry.book, chapters, chapter)}
+                            >
+                              <p className={`text-sm font-bold truncate ${isCurrent ? 'text-primary-600' : 'text-slate-900 dark:text-white'}`}>
+                                {chapter.title}
+                              </p>
+                              <div className="flex items-center gap-3 mt-1 text-[10px] sm:text-xs text-slate-400 font-medium">
+                                <span className="flex items-center gap-1">
+                                  <Clock size={12} />
+                                  {formatDuration(chapter.duration)}
+                                </span>
+                                <span>{formatSize(download.size)}</span>
+                                {task?.status === 'downloading' && (
+                                  <span className="text-primary-600">{Math.round(task.progress * 100)}%</span>
+                                )}
+                                {task?.status === 'failed' && (
+                                  <span className="text-red-500">下载失败</span>
+                                )}
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-1 shrink-0">
+                              <button
+                                onClick={() => playChapter(entry.book, chapters, chapter)}
+                                className="p-2 text-slate-400 hover:text-primary-600 transition-colors"
+                                title="播放"
+                              >
+                                <Play size={16} />
+                              </button>
+                              <button
+                                onClick={() => redownloadChapter(entry.book.id, chapter.id)}
+                                disabled={!isOnline || task?.status === 'downloading'}
+                                className="p-2 text-slate-400 hover:text-primary-600 transition-colors disabled:opacity-40 disabled:hover:text-slate-400"
+                                title="重新下载"
+                              >
+                                {task?.status === 'downloading' ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                              </button>
+                              <button
+                                onClick={() => removeChapter(entry.book.id, chapter.id)}
+                                className="p-2 text-slate-400 hover:text-red-500 transition-colors"
+                                title="删除"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="py-20 text-center bg-white dark:bg-slate-900 rounded-3xl border border-dashed border-slate-200 dark:border-slate-800">
+            <div className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-primary-50 dark:bg-primary-900/10 text-primary-400 mb-6">
+              <Download size={40} />
+            </div>
+            <h3 className="text-xl font-bold dark:text-white">还没有离线下载的章节</h3>
+            <p className="text-sm text-slate-500 mt-2">在书籍详情页点击章节右侧的下载按钮，即可离线收听</p>
+          </div>
+        )}
+      </div>
+
+      {/* Dynamic Safe Bottom Spacer */}
+      <div
+        className="shrink-0 transition-all duration-300"
+        style={{ height: currentChapter ? 'var(--safe-bottom-with-player)' : 'var(--safe-bottom-base)' }}
+      />
+    </div>
+  );
+};
+
+export default DownloadsPage;
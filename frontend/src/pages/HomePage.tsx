@@ -14,6 +14,7 @@ import { Link } from 'react-router-dom';
 import { getCoverUrl } from '../utils/image';
 import ExpandableTitle from '../components/ExpandableTitle';
 import { usePlayerStore } from '../store/playerStore';
+import { useListeningStatsStore } from '../store/listeningStatsStore';
 
 const HomePage: React.FC = () => {
   const currentChapter = usePlayerStore((state) => state.currentChapter);
@@ -30,6 +31,7 @@ const HomePage: React.FC = () => {
         ]);
         setStats(statsRes.data);
         setRecentPlays(recentRes.data || []);
+        useListeningStatsStore.getState().mergeServerProgress(recentRes.data || []);
       } catch (err) {
         console.error('Failed to fetch home data', err);
       } finally {
@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuthStore } from '../store/authStore';
 import { Lock, User, Server } from 'lucide-react';
 import logoImg from '../assets/logo.png';
 import { safeStorage } from '../utils/storage';
+import { clearCredential, loadCredential, saveCredential } from '../utils/credentials';
+import { allowServerOrigins } from '../api/endpoints';
 
 type ErrorWithResponse = {
   response?: {
@@ -22,17 +24,28 @@ const LoginPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Where an expired session was, so logging in again lands back there
+  const redirectTo = searchParams.get('redirect');
+  const afterLogin = redirectTo?.startsWith('/') && !redirectTo.startsWith('/login') ? redirectTo : '/';
   const { setAuth, setServerUrl, setActiveUrl, serverUrl: storedServerUrl } = useAuthStore();
   
   // Check if running in Electron
   const isElectron = !!(window as Window & { electronAPI?: unknown }).electronAPI;
 
   useEffect(() => {
-    // Restore saved credentials if available
-    const savedUsername = safeStorage.getItem('saved_username');
-    const savedPassword = safeStorage.getItem('saved_password');
-    if (savedUsername) setUsername(savedUsername);
-    if (savedPassword) setPassword(savedPassword);
+    // Restore saved credentials if available; the OS keychain in Electron only
+    // gives back the username, the password never leaves the main process
+    if (isElectron) {
+      loadCredential().then(credential => {
+        if (credential?.username) setUsername(credential.username);
+      });
+    } else {
+      const savedUsername = safeStorage.getItem('saved_username');
+      const savedPassword = safeStorage.getItem('saved_password');
+      if (savedUsername) setUsername(savedUsername);
+      if (savedPassword) setPassword(savedPassword);
+    }
     
     if (storedServerUrl && isElectron) {
       // Fix: If stored URL is file:// (legacy default), clear it
@@ -44,6 +57,33 @@ const LoginPage: React.FC = () => {
     }
   }, [storedServerUrl, isElectron]);
 
+  // Save the login if "Remember Password" is checked. Electron keeps the server's
+  // refresh token in the keychain, or the password for servers that issue none.
+  // Resolves the refresh token left for the auth store.
+  const rememberLogin = async (refreshToken?: string | null) => {
+    if (isElectron) {
+      if (!rememberPassword) {
+        await clearCredential();
+        return refreshToken;
+      }
+      await saveCredential({
+        username,
+        serverUrl: serverAddress,
+        refreshToken: refreshToken || null,
+        password: refreshToken ? null : password
+      });
+      return null;
+    }
+    if (rememberPassword) {
+      safeStorage.setItem('saved_username', username);
+      safeStorage.setItem('saved_password', password);
+    } else {
+      safeStorage.removeItem('saved_username');
+      safeStorage.removeItem('saved_password');
+    }
+    return refreshToken;
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -65,11 +105,13 @@ const LoginPage: React.FC = () => {
         // We should store the EFFECTIVE url if possible, but fetch doesn't easily expose the final URL of a redirect
         // unless we inspect response.url.
         setActiveUrl(serverAddress);
+        // The main process answers CORS for the server's addresses only
+        await allowServerOrigins();
       }
 
       // 2. Login
       // Use fetch instead of axios to bypass some CORS issues or handle it differently?
-      // Actually, if we disabled webSecurity in Electron main process, both should work.
+      // Actually, since the Electron main process answers CORS for the app origin, both should work.
       // But fetch API is natively supported and might be simpler to debug.
       
       const loginUrl = `${isElectron ? serverAddress : ''}/api/auth/login`;
@@ -117,14 +159,14 @@ const LoginPage: React.FC = () => {
                
                if (retryResponse.ok) {
                    const data = await retryResponse.json();
-                   const { token, user } = data;
+                   const { token, user, refresh_token: refreshToken } = data;
                    
                    // Update base URL based on successful retry
                    const baseUrl = retryResponse.url.replace(/\/api\/auth\/login\/?$/, '');
                    setActiveUrl(baseUrl);
                    
-                   setAuth(user, token);
-                   navigate('/');
+                   setAuth(user, token, await rememberLogin(refreshToken));
+                   navigate(afterLogin);
                    return;
                } else {
                    // Retry failed too
@@ -137,19 +179,10 @@ const LoginPage: React.FC = () => {
       }
       
       const data = await fetchResponse.json();
-      const { token, user } = data;
+      const { token, user, refresh_token: refreshToken } = data;
       
-      // Save credentials if "Remember Password" is checked
-      if (rememberPassword) {
-        safeStorage.setItem('saved_username', username);
-        safeStorage.setItem('saved_password', password);
-      } else {
-        safeStorage.removeItem('saved_username');
-        safeStorage.removeItem('saved_password');
-      }
-
-      setAuth(user, token);
-      navigate('/');
+      setAuth(user, token, await rememberLogin(refreshToken));
+      navigate(afterLogin);
     } catch (err) {
       console.error('Login error:', err);
       const errorWithResponse = err as ErrorWithResponse;
@@ -236,7 +269,7 @@ const LoginPage: React.FC = () => {
                 className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
               />
               <label htmlFor="remember-password" className="ml-2 text-sm text-slate-600 dark:text-slate-400">
-                记住密码 (启动时自动登录)
+                {isElectron ? '保持登录 (启动时自动登录)' : '记住密码 (启动时自动登录)'}
               </label>
             </div>
 
@@ -2,11 +2,14 @@ import React, { useState, useEffect, useRef } from 'react';
 import apiClient from '../api/client';
 import type { Book, Library, Series } from '../types';
 import BookCard from '../components/BookCard';
-import { Search as SearchIcon, Loader2, BookX, ChevronLeft, ChevronRight, SlidersHorizontal, ChevronUp, ChevronDown } from 'lucide-react';
+import { Search as SearchIcon, Loader2, BookX, ChevronLeft, ChevronRight, SlidersHorizontal, ChevronUp, ChevronDown, ListPlus } from 'lucide-react';
 import { usePlayerStore } from '../store/playerStore';
+import { usePlayQueueStore } from '../store/playQueueStore';
+import { registerShortcutHandler } from '../utils/shortcuts';
 
 const SearchPage: React.FC = () => {
   const [query, setQuery] = useState('');
+  const searchInputRef = useRef<HTMLInputElement>(null);
   
   // Filter states
   const [selectedLibraryId, setSelectedLibraryId] = useState<string>('');
@@ -31,6 +34,7 @@ const SearchPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [debouncedQuery, setDebouncedQuery] = useState('');
   const currentChapter = usePlayerStore((state) => state.currentChapter);
+  const enqueueBooks = usePlayQueueStore((state) => state.enqueueBooks);
   
   // Cover shape and icon size settings from bookshelf
   const [coverShape, setCoverShape] = useState<'rect' | 'square'>('rect');
@@ -297,6 +301,13 @@ const SearchPage: React.FC = () => {
 
   const hasActiveFilters = selectedLibraryId || selectedTag || selectedGenre || selectedAuthor || selectedNarrator || selectedSeries || selectedYear;
 
+  useEffect(() => {
+    return registerShortcutHandler('focusSearch', () => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    });
+  }, []);
+
   return (
     <div className="w-full max-w-screen-2xl mx-auto p-4 sm:p-6 md:p-8 lg:p-10 space-y-6">
       <div className="text-center space-y-4">
@@ -307,6 +318,7 @@ const SearchPage: React.FC = () => {
         <div className="w-full max-w-md sm:max-w-xl md:max-w-3xl lg:max-w-5xl xl:max-w-6xl 2xl:max-w-7xl mx-auto relative mt-8">
           <SearchIcon className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={20} />
           <input 
+            ref={searchInputRef}
             type="text"
             placeholder="输入关键词搜索..."
             value={query}
@@ -406,10 +418,22 @@ const SearchPage: React.FC = () => {
       </div>
 
       {results.length > 0 ? (
-        <div className={`grid ${getGridCols()} pt-4`}>
-          {results.map((book) => (
-            <BookCard key={book.id} book={book} coverShape={coverShape} />
-          ))}
+        <div className="space-y-4 pt-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-500">共 {results.length} 本</span>
+            <button
+              onClick={() => enqueueBooks(results)}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-bold text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 rounded-xl hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+            >
+              <ListPlus size={16} />
+              全部加入播放队列
+            </button>
+          </div>
+          <div className={`grid ${getGridCols()}`}>
+            {results.map((book) => (
+              <BookCard key={book.id} book={book} coverShape={coverShape} />
+            ))}
+          </div>
         </div>
       ) : (debouncedQuery || hasActiveFilters) && !loading ? (
         <div className="py-20 text-center">
@@ -1,13 +1,17 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import apiClient from '../api/client';
-import type { Book, Series } from '../types';
+import type { Book, Chapter, Series } from '../types';
 import BookCard from '../components/BookCard';
 import BookSelector from '../components/BookSelector';
-import { ArrowLeft, Trash2, Save, Settings, X, Plus, Filter } from 'lucide-react';
+import DownloadQueueStatus from '../components/DownloadQueueStatus';
+import { ArrowLeft, Trash2, Save, Settings, X, Plus, Filter, Download, Loader2, ListPlus } from 'lucide-react';
 import { getCoverUrl } from '../utils/image';
 import { usePlayerStore } from '../store/playerStore';
 import { useAuthStore } from '../store/authStore';
+import { useDownloadStore } from '../store/downloadStore';
+import { usePlayQueueStore } from '../store/playQueueStore';
+import { isElectron } from '../utils/env';
 
 const SeriesDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -20,6 +24,9 @@ const SeriesDetailPage: React.FC = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [showBookSelector, setShowBookSelector] = useState(false);
   const { setIsSeriesEditing } = usePlayerStore();
+  const enqueueBook = useDownloadStore((state) => state.enqueueBook);
+  const [queueingSeries, setQueueingSeries] = useState(false);
+  const enqueuePlayback = usePlayQueueStore((state) => state.enqueueBooks);
   
   // Filter & Sort state
   const [sortBy, setSortBy] = useState<'default' | 'title' | 'author' | 'createdAt'>('default');
@@ -147,6 +154,26 @@ const SeriesDetailPage: React.FC = () => {
     }
   };
 
+  const handleDownloadSeries = async () => {
+    if (!window.confirm(`确定要下载系列中的全部 ${books.length} 本书吗？`)) return;
+    setQueueingSeries(true);
+    try {
+      for (const book of books) {
+        const res = await apiClient.get<Chapter[]>(`/api/books/${book.id}/chapters`);
+        const result = await enqueueBook(book, res.data);
+        if (!result.success) {
+          alert(`《${book.title}》添加下载失败：${result.error || '未知错误'}`);
+          break;
+        }
+      }
+    } catch (err) {
+      console.error('Failed to queue series download', err);
+      alert('获取章节列表失败');
+    } finally {
+      setQueueingSeries(false);
+    }
+  };
+
   const moveBook = (fromIndex: number, toIndex: number) => {
     const updatedBooks = [...books];
     const [movedBook] = updatedBooks.splice(fromIndex, 1);
@@ -181,6 +208,27 @@ const SeriesDetailPage: React.FC = () => {
                   <Filter size={20} />
                 </button>
 
+                {books.length > 0 && (
+                  <button
+                    onClick={() => enqueuePlayback(books)}
+                    className="p-2.5 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-xl hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+                    title="按系列顺序加入播放队列"
+                  >
+                    <ListPlus size={20} />
+                  </button>
+                )}
+
+                {isElectron && books.length > 0 && (
+                  <button
+                    onClick={handleDownloadSeries}
+                    disabled={queueingSeries}
+                    className="p-2.5 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-xl hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+                    title="下载整个系列"
+                  >
+                    {queueingSeries ? <Loader2 size={20} className="animate-spin" /> : <Download size={20} />}
+                  </button>
+                )}
+
                 {isAdmin && (
                   <button 
                     onClick={() => setIsEditing(true)}
@@ -375,6 +423,14 @@ const SeriesDetailPage: React.FC = () => {
       ) : (
         // VIEW MODE (New Bookshelf View)
         <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-300">
+           {isElectron && (
+             <div className="space-y-2 empty:hidden">
+               {books.map(book => (
+                 <DownloadQueueStatus key={book.id} bookId={book.id} showTitle />
+               ))}
+             </div>
+           )}
+
            {/* Books Grid */}
              <div className="flex-1 w-full">
                 <div className="flex items-center justify-between mb-4">
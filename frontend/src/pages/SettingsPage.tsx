@@ -14,8 +14,28 @@ import {
   Key,
   Code,
   Copy,
+  HardDrive,
+  Trash2,
+  Keyboard,
+  RotateCcw,
+  Network,
+  ArrowUp,
+  Plus,
+  RefreshCw,
+  ShieldCheck,
 } from 'lucide-react';
 import { useAuthStore } from '../store/authStore';
+import { useDownloadStore } from '../store/downloadStore';
+import { usePlayQueueStore } from '../store/playQueueStore';
+import { MAX_PLAYBACK_SPEED, MIN_PLAYBACK_SPEED, PLAYBACK_SPEED_STEP, formatSpeed } from '../utils/playbackSpeed';
+import { useShortcutStore } from '../store/shortcutStore';
+import { useSleepTimerStore } from '../store/sleepTimerStore';
+import { SHORTCUT_ACTIONS, GLOBAL_SHORTCUT_PREFIX, eventToShortcut, formatShortcut } from '../utils/shortcuts';
+import type { ShortcutAction } from '../utils/shortcuts';
+import { getElectronAPI } from '../utils/env';
+import { formatSize } from '../utils/size';
+import { getEndpoints, probeEndpoints, selectEndpoint } from '../api/endpoints';
+import type { EndpointProbe, TrustedCertificate } from '../types';
 
 type SettingsPayload = {
   playback_speed: number;
@@ -43,7 +63,29 @@ const defaultSettings: SettingsPayload = {
 const SettingsPage: React.FC = () => {
   const { user, setUser } = useAuthStore();
   const { applyTheme } = useTheme();
-  const setPlaybackSpeed = usePlayerStore(state => state.setPlaybackSpeed);
+  const applyDefaultSpeed = usePlayerStore(state => state.applyDefaultSpeed);
+  const deviceSpeed = usePlayerStore(state => state.deviceSpeed);
+  const setDeviceSpeed = usePlayerStore(state => state.setDeviceSpeed);
+  const preservesPitch = usePlayerStore(state => state.preservesPitch);
+  const setPreservesPitch = usePlayerStore(state => state.setPreservesPitch);
+  const clientAutoDownload = usePlayerStore(state => state.clientAutoDownload);
+  const setClientAutoDownload = usePlayerStore(state => state.setClientAutoDownload);
+  const autoDownloadCount = usePlayerStore(state => state.autoDownloadCount);
+  const setAutoDownloadCount = usePlayerStore(state => state.setAutoDownloadCount);
+  const gaplessPlayback = usePlayerStore(state => state.gaplessPlayback);
+  const crossfadeSeconds = usePlayerStore(state => state.crossfadeSeconds);
+  const setGaplessPlayback = usePlayerStore(state => state.setGaplessPlayback);
+  const setCrossfadeSeconds = usePlayerStore(state => state.setCrossfadeSeconds);
+  const showWaveform = usePlayerStore(state => state.showWaveform);
+  const resumeRewind = usePlayerStore(state => state.resumeRewind);
+  const resumeRewindMin = usePlayerStore(state => state.resumeRewindMin);
+  const resumeRewindMax = usePlayerStore(state => state.resumeRewindMax);
+  const setResumeRewind = usePlayerStore(state => state.setResumeRewind);
+  const setShowWaveform = usePlayerStore(state => state.setShowWaveform);
+  const continueSeries = usePlayQueueStore(state => state.continueSeries);
+  const setContinueSeries = usePlayQueueStore(state => state.setContinueSeries);
+  const storageBudget = useDownloadStore(state => state.storageBudget);
+  const setStorageBudget = useDownloadStore(state => state.setStorageBudget);
   const [settings, setSettings] = useState<SettingsPayload>(defaultSettings);
   const [accountData, setAccountData] = useState({
     username: user?.username || '',
@@ -67,7 +109,91 @@ const SettingsPage: React.FC = () => {
   const [checkingBackendUpdate, setCheckingBackendUpdate] = useState(false);
   const [clientUpdateInfo, setClientUpdateInfo] = useState<UpdateInfo | null>(null);
   const [checkingClientUpdate, setCheckingClientUpdate] = useState(false);
+  const [cacheSize, setCacheSize] = useState<number | null>(null);
+  const [clearingCache, setClearingCache] = useState(false);
+  const electronAPI = getElectronAPI();
+  const activeUrl = useAuthStore(state => state.activeUrl);
+  const endpoints = useAuthStore(state => state.endpoints);
+  const setEndpoints = useAuthStore(state => state.setEndpoints);
+  const serverUrl = useAuthStore(state => state.serverUrl);
+  const [newEndpoint, setNewEndpoint] = useState('');
+  const [endpointProbes, setEndpointProbes] = useState<Record<string, EndpointProbe>>({});
+  const [checkingEndpoints, setCheckingEndpoints] = useState(false);
+  const [trustedCerts, setTrustedCerts] = useState<TrustedCertificate[]>([]);
+  const { bindings, globalEnabled, setBinding, resetBindings, setGlobalEnabled } = useShortcutStore();
+  const { fadeSeconds, extendOnActivity, setFadeSeconds, setExtendOnActivity, setDefaultMinutes } = useSleepTimerStore();
+  const [recordingAction, setRecordingAction] = useState<ShortcutAction | null>(null);
+
+  // Capture the next key press as the new binding (Esc cancels, Backspace clears)
+  useEffect(() => {
+    if (!recordingAction) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRecordingAction(null);
+        return;
+      }
+      if (e.key === 'Backspace') {
+        setBinding(recordingAction, '');
+        setRecordingAction(null);
+        return;
+      }
+      const shortcut = eventToShortcut(e);
+      if (!shortcut) return;
+      setBinding(recordingAction, shortcut);
+      setRecordingAction(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingAction, setBinding]);
+
+  const refreshCacheSize = useCallback(async () => {
+    const api = getElectronAPI();
+    if (!api) return;
+    try {
+      setCacheSize(await api.getCacheSize());
+    } catch (err) {
+      console.error('Failed to get cache size', err);
+    }
+  }, []);
+
+  const handleClearCache = async () => {
+    if (!electronAPI || clearingCache) return;
+    if (!window.confirm('确定要清空所有离线缓存吗？已下载的章节需要重新下载。')) return;
+    setClearingCache(true);
+    try {
+      const result = await electronAPI.clearCache();
+      if (!result.success) {
+        alert('清空缓存失败');
+      }
+    } finally {
+      setClearingCache(false);
+      refreshCacheSize();
+    }
+  };
   
+  // Editing starts from the login address when no alternatives were added yet
+  const endpointList = endpoints.length > 0 ? endpoints : (serverUrl ? [serverUrl] : []);
+
+  const handleAddEndpoint = () => {
+    const url = newEndpoint.trim().replace(/\/+$/, '');
+    if (!url || endpointList.includes(url)) return;
+    setEndpoints([...endpointList, url]);
+    setNewEndpoint('');
+  };
+
+  const handleCheckEndpoints = async () => {
+    setCheckingEndpoints(true);
+    try {
+      const probes = await probeEndpoints(getEndpoints());
+      setEndpointProbes(Object.fromEntries(probes.map(probe => [probe.url, probe])));
+      await selectEndpoint();
+    } finally {
+      setCheckingEndpoints(false);
+    }
+  };
+
   const fetchSettings = useCallback(async () => {
     try {
       const response = await apiClient.get<Partial<SettingsPayload>>('/api/settings');
@@ -92,6 +218,31 @@ const SettingsPage: React.FC = () => {
     }
   }, [applyTheme]);
 
+  useEffect(() => {
+    refreshCacheSize();
+  }, [refreshCacheSize]);
+
+  const refreshTrustedCerts = useCallback(async () => {
+    const api = getElectronAPI();
+    if (!api) return;
+    try {
+      setTrustedCerts(await api.listTrustedCertificates());
+    } catch (err) {
+      console.error('Failed to list trusted certificates', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshTrustedCerts();
+  }, [refreshTrustedCerts]);
+
+  const handleRemoveTrustedCert = async (host: string) => {
+    if (!electronAPI) return;
+    if (!window.confirm(`确定不再信任 ${host} 的证书吗？下次连接时将重新询问。`)) return;
+    await electronAPI.removeTrustedCertificate(host);
+    refreshTrustedCerts();
+  };
+
   useEffect(() => {
     fetchSettings();
     apiClient.get('/api/health').then(res => {
@@ -203,9 +354,11 @@ const SettingsPage: React.FC = () => {
       
       // Sync playback speed to player store immediately
       if (newSettings.playback_speed) {
-        setPlaybackSpeed(newSettings.playback_speed);
+        applyDefaultSpeed(newSettings.playback_speed);
       }
 
+      setDefaultMinutes(newSettings.sleep_timer_default);
+
       // Apply theme immediately if it changed
       if (newSettings.theme) {
         applyTheme(newSettings.theme);
@@ -369,7 +522,7 @@ const SettingsPage: React.FC = () => {
             <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
               <div>
                 <p className="font-bold dark:text-white">默认播放倍速</p>
-                <p className="text-xs md:text-sm text-slate-500">所有书籍开始播放时的初始倍速</p>
+                <p className="text-xs md:text-sm text-slate-500">账户下所有设备开始播放时的初始倍速</p>
               </div>
               <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl self-start sm:self-auto w-full sm:w-auto">
                 {[1.0, 1.25, 1.5, 2.0].map(speed => (
@@ -386,7 +539,114 @@ const SettingsPage: React.FC = () => {
               </div>
             </div>
 
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold dark:text-white truncate">本设备默认倍速</p>
+                  <p className="text-xs md:text-sm text-slate-500 line-clamp-2">仅对当前设备生效，优先于账户默认倍速；单本书保存的倍速仍然优先</p>
+                </div>
+                <button
+                  onClick={() => setDeviceSpeed(deviceSpeed === null ? settings.playback_speed : null)}
+                  className={`flex-shrink-0 w-12 md:w-14 h-7 md:h-8 rounded-full transition-all relative ${
+                    deviceSpeed !== null ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+                  }`}
+                >
+                  <div className={`absolute top-1 w-5 md:w-6 h-5 md:h-6 bg-white rounded-full transition-all ${
+                    deviceSpeed !== null ? 'left-6 md:left-7' : 'left-1'
+                  }`} />
+                </button>
+              </div>
+              {deviceSpeed !== null && (
+                <div className="flex items-center gap-4">
+                  <input
+                    type="range"
+                    min={MIN_PLAYBACK_SPEED}
+                    max={MAX_PLAYBACK_SPEED}
+                    step={PLAYBACK_SPEED_STEP}
+                    value={deviceSpeed}
+                    onChange={e => setDeviceSpeed(parseFloat(e.target.value))}
+                    className="flex-1 accent-primary-600"
+                  />
+                  <span className="w-12 text-right text-sm font-bold text-primary-600">{formatSpeed(deviceSpeed)}</span>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold dark:text-white truncate">变速保持音调</p>
+                <p className="text-xs md:text-sm text-slate-500 line-clamp-2">关闭后加速时声音会变尖、减速时变低沉</p>
+              </div>
+              <button
+                onClick={() => setPreservesPitch(!preservesPitch)}
+                className={`flex-shrink-0 w-12 md:w-14 h-7 md:h-8 rounded-full transition-all relative ${
+                  preservesPitch ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+                }`}
+              >
+                <div className={`absolute top-1 w-5 md:w-6 h-5 md:h-6 bg-white rounded-full transition-all ${
+                  preservesPitch ? 'left-6 md:left-7' : 'left-1'
+                }`} />
+              </button>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div>
+                <p className="font-bold dark:text-white">默认睡眠定时</p>
+                <p className="text-xs md:text-sm text-slate-500">开始播放时自动开启的定时，手动取消后本次不再开启</p>
+              </div>
+              <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl self-start sm:self-auto w-full sm:w-auto">
+                {[0, 15, 30, 45, 60].map(mins => (
+                  <button
+                    key={mins}
+                    onClick={() => handleSave({ ...settings, sleep_timer_default: mins })}
+                    className={`flex-1 sm:flex-none px-2 md:px-4 py-2 text-sm font-bold rounded-lg transition-all ${
+                      settings.sleep_timer_default === mins ? 'bg-white dark:bg-slate-700 shadow-sm text-primary-600' : 'text-slate-500'
+                    }`}
+                  >
+                    {mins ? `${mins}分` : '关闭'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div>
+                <p className="font-bold dark:text-white">定时结束前淡出</p>
+                <p className="text-xs md:text-sm text-slate-500">睡眠定时结束前逐渐降低音量</p>
+              </div>
+              <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl self-start sm:self-auto w-full sm:w-auto">
+                {[0, 30, 45, 60].map(seconds => (
+                  <button
+                    key={seconds}
+                    onClick={() => setFadeSeconds(seconds)}
+                    className={`flex-1 sm:flex-none px-2 md:px-4 py-2 text-sm font-bold rounded-lg transition-all ${
+                      fadeSeconds === seconds ? 'bg-white dark:bg-slate-700 shadow-sm text-primary-600' : 'text-slate-500'
+                    }`}
+                  >
+                    {seconds ? `${seconds}秒` : '关闭'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="flex items-center justify-between gap-4">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold dark:text-white truncate">摇一摇延长定时</p>
+                <p className="text-xs md:text-sm text-slate-500 line-clamp-2">定时即将结束时，摇动设备或操作界面即可重新计时</p>
+              </div>
+              <button
+                onClick={() => setExtendOnActivity(!extendOnActivity)}
+                className={`flex-shrink-0 w-12 md:w-14 h-7 md:h-8 rounded-full transition-all relative ${
+                  extendOnActivity ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+                }`}
+              >
+                <div className={`absolute top-1 w-5 md:w-6 h-5 md:h-6 bg-white rounded-full transition-all ${
+                  extendOnActivity ? 'left-6 md:left-7' : 'left-1'
+                }`} />
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 pt-4 border-t border-slate-100 dark:border-slate-800">
               <div className="flex-1 min-w-0">
                 <p className="font-bold dark:text-white truncate">自动预加载下一章</p>
                 <p className="text-xs md:text-sm text-slate-500 line-clamp-2">播放当前章节时，后台自动解密并缓冲下一章节</p>
@@ -403,6 +663,139 @@ const SettingsPage: React.FC = () => {
               </button>
             </div>
 
+            <div className="flex items-center justify-between gap-4 pt-4 border-t border-slate-100 dark:border-slate-800">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold dark:text-white truncate">无缝切换章节</p>
+                <p className="text-xs md:text-sm text-slate-500 line-clamp-2">章节结束时直接衔接已缓冲的下一章，避免停顿和重新缓冲</p>
+              </div>
+              <button
+                onClick={() => setGaplessPlayback(!gaplessPlayback)}
+                className={`flex-shrink-0 w-12 md:w-14 h-7 md:h-8 rounded-full transition-all relative ${
+                  gaplessPlayback ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+                }`}
+              >
+                <div className={`absolute top-1 w-5 md:w-6 h-5 md:h-6 bg-white rounded-full transition-all ${
+                  gaplessPlayback ? 'left-6 md:left-7' : 'left-1'
+                }`} />
+              </button>
+            </div>
+
+            {gaplessPlayback && (
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                  <p className="font-bold dark:text-white">章节交叉淡入淡出</p>
+                  <p className="text-xs md:text-sm text-slate-500">在章节结尾逐渐淡入下一章</p>
+                </div>
+                <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl self-start sm:self-auto w-full sm:w-auto">
+                  {[0, 1, 2, 3, 5].map(seconds => (
+                    <button
+                      key={seconds}
+                      onClick={() => setCrossfadeSeconds(seconds)}
+                      className={`flex-1 sm:flex-none px-2 md:px-4 py-2 text-sm font-bold rounded-lg transition-all ${
+                        crossfadeSeconds === seconds ? 'bg-white dark:bg-slate-700 shadow-sm text-primary-600' : 'text-slate-500'
+                      }`}
+                    >
+                      {seconds ? `${seconds}秒` : '关闭'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-4 pt-4 border-t border-slate-100 dark:border-slate-800">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold dark:text-white truncate">继续播放时自动回退</p>
+                <p className="text-xs md:text-sm text-slate-500 line-clamp-2">暂停越久回退越多，短暂停顿回退几秒，隔天继续时回退更多，方便接上剧情</p>
+              </div>
+              <button
+                onClick={() => setResumeRewind({ resumeRewind: !resumeRewind })}
+                className={`flex-shrink-0 w-12 md:w-14 h-7 md:h-8 rounded-full transition-all relative ${
+                  resumeRewind ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+                }`}
+              >
+                <div className={`absolute top-1 w-5 md:w-6 h-5 md:h-6 bg-white rounded-full transition-all ${
+                  resumeRewind ? 'left-6 md:left-7' : 'left-1'
+                }`} />
+              </button>
+            </div>
+
+            {resumeRewind && (
+              <>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div>
+                    <p className="font-bold dark:text-white">短暂停顿回退</p>
+                    <p className="text-xs md:text-sm text-slate-500">暂停几秒后继续时的回退时长</p>
+                  </div>
+                  <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl self-start sm:self-auto w-full sm:w-auto">
+                    {[0, 1, 2, 5].map(seconds => (
+                      <button
+                        key={seconds}
+                        onClick={() => setResumeRewind({ resumeRewindMin: seconds })}
+                        className={`flex-1 sm:flex-none px-2 md:px-4 py-2 text-sm font-bold rounded-lg transition-all ${
+                          resumeRewindMin === seconds ? 'bg-white dark:bg-slate-700 shadow-sm text-primary-600' : 'text-slate-500'
+                        }`}
+                      >
+                        {seconds ? `${seconds}秒` : '不回退'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div>
+                    <p className="font-bold dark:text-white">最长回退</p>
+                    <p className="text-xs md:text-sm text-slate-500">暂停一天及以上时的回退时长</p>
+                  </div>
+                  <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl self-start sm:self-auto w-full sm:w-auto">
+                    {[10, 30, 60, 120].map(seconds => (
+                      <button
+                        key={seconds}
+                        onClick={() => setResumeRewind({ resumeRewindMax: seconds })}
+                        className={`flex-1 sm:flex-none px-2 md:px-4 py-2 text-sm font-bold rounded-lg transition-all ${
+                          resumeRewindMax === seconds ? 'bg-white dark:bg-slate-700 shadow-sm text-primary-600' : 'text-slate-500'
+                        }`}
+                      >
+                        {`${seconds}秒`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className="flex items-center justify-between gap-4 pt-4 border-t border-slate-100 dark:border-slate-800">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold dark:text-white truncate">自动播放系列下一本</p>
+                <p className="text-xs md:text-sm text-slate-500 line-clamp-2">播放队列为空时，整本书播完后倒计时播放同系列的下一本，可随时取消</p>
+              </div>
+              <button
+                onClick={() => setContinueSeries(!continueSeries)}
+                className={`flex-shrink-0 w-12 md:w-14 h-7 md:h-8 rounded-full transition-all relative ${
+                  continueSeries ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+                }`}
+              >
+                <div className={`absolute top-1 w-5 md:w-6 h-5 md:h-6 bg-white rounded-full transition-all ${
+                  continueSeries ? 'left-6 md:left-7' : 'left-1'
+                }`} />
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 pt-4 border-t border-slate-100 dark:border-slate-800">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold dark:text-white truncate">波形进度条</p>
+                <p className="text-xs md:text-sm text-slate-500 line-clamp-2">为 20 分钟以上的长音频生成波形预览，会额外下载部分音频数据</p>
+              </div>
+              <button
+                onClick={() => setShowWaveform(!showWaveform)}
+                className={`flex-shrink-0 w-12 md:w-14 h-7 md:h-8 rounded-full transition-all relative ${
+                  showWaveform ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+                }`}
+              >
+                <div className={`absolute top-1 w-5 md:w-6 h-5 md:h-6 bg-white rounded-full transition-all ${
+                  showWaveform ? 'left-6 md:left-7' : 'left-1'
+                }`} />
+              </button>
+            </div>
+
             <div className="flex items-center justify-between gap-4 pt-4 border-t border-slate-100 dark:border-slate-800">
               <div className="flex-1 min-w-0">
                 <p className="font-bold dark:text-white truncate">服务端自动缓存 (WebDAV)</p>
@@ -424,6 +817,248 @@ const SettingsPage: React.FC = () => {
           </div>
         </section>
 
+        {/* Server Addresses (Electron only) */}
+        {electronAPI && (
+        <section className="bg-white dark:bg-slate-900 rounded-3xl p-4 md:p-6 border border-slate-100 dark:border-slate-800 shadow-sm">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-bold dark:text-white flex items-center gap-2">
+              <Network size={20} className="text-teal-500" />
+              服务器地址
+            </h2>
+            <button
+              onClick={handleCheckEndpoints}
+              disabled={checkingEndpoints || endpointList.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg text-slate-500 hover:text-primary-600 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw size={14} className={checkingEndpoints ? 'animate-spin' : ''} />
+              {checkingEndpoints ? '检测中...' : '检测并切换'}
+            </button>
+          </div>
+          <p className="text-xs md:text-sm text-slate-500 mb-4">
+            为同一台服务器添加多个地址（局域网 IP、反向代理域名、Tailscale 等），应用会并行检测并自动使用最快的可用地址。排在前面的地址在速度相近时优先。
+          </p>
+          <div className="space-y-2">
+            {endpointList.map((url, index) => {
+              const probe = endpointProbes[url];
+              const isActive = !!probe && probe.ok && probe.resolvedUrl === activeUrl;
+              return (
+                <div key={url} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800/50">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium dark:text-white truncate">{url}</p>
+                    {probe && (
+                      <p className={`text-[10px] font-bold ${probe.ok ? 'text-green-500' : 'text-red-500'}`}>
+                        {probe.ok ? `${probe.latency}ms${isActive ? ' · 当前使用' : ''}` : '无法连接'}
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => {
+                      const next = [...endpointList];
+                      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+                      setEndpoints(next);
+                    }}
+                    disabled={index === 0}
+                    className="p-1.5 text-slate-400 hover:text-primary-600 transition-colors disabled:opacity-30"
+                    title="优先使用"
+                  >
+                    <ArrowUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => setEndpoints(endpointList.filter(item => item !== url))}
+                    disabled={endpointList.length <= 1}
+                    className="p-1.5 text-slate-400 hover:text-red-500 transition-colors disabled:opacity-30"
+                    title="移除"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-2 mt-4">
+            <input
+              type="text"
+              value={newEndpoint}
+              onChange={e => setNewEndpoint(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleAddEndpoint()}
+              placeholder="例如: https://ting.example.com"
+              className="flex-1 min-w-0 px-4 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl focus:ring-2 focus:ring-primary-500 outline-none text-sm dark:text-white"
+            />
+            <button
+              onClick={handleAddEndpoint}
+              disabled={!newEndpoint.trim()}
+              className="flex-shrink-0 flex items-center gap-1.5 px-4 py-2 text-sm font-bold rounded-xl bg-primary-600 text-white hover:bg-primary-700 transition-colors disabled:opacity-50"
+            >
+              <Plus size={16} />
+              添加
+            </button>
+          </div>
+
+          {trustedCerts.length > 0 && (
+            <div className="pt-4 mt-4 border-t border-slate-100 dark:border-slate-800">
+              <p className="font-bold dark:text-white">已信任的证书</p>
+              <p className="text-xs md:text-sm text-slate-500 mb-3">首次连接时确认过的自签名证书，只接受指纹一致的证书</p>
+              <div className="space-y-2">
+                {trustedCerts.map(cert => (
+                  <div key={cert.host} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800/50">
+                    <ShieldCheck size={16} className="text-green-500 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium dark:text-white truncate">{cert.host}</p>
+                      <p className="text-[10px] text-slate-400 font-mono truncate" title={cert.fingerprint}>{cert.fingerprint}</p>
+                    </div>
+                    <button
+                      onClick={() => handleRemoveTrustedCert(cert.host)}
+                      className="p-1.5 text-slate-400 hover:text-red-500 transition-colors"
+                      title="取消信任"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
+        )}
+
+        {/* Offline Cache (Electron only) */}
+        {electronAPI && (
+        <section className="bg-white dark:bg-slate-900 rounded-3xl p-4 md:p-6 border border-slate-100 dark:border-slate-800 shadow-sm">
+          <h2 className="text-xl font-bold dark:text-white mb-6 flex items-center gap-2">
+            <HardDrive size={20} className="text-green-500" />
+            离线缓存
+          </h2>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex-1 min-w-0">
+              <p className="font-bold dark:text-white truncate">已用空间</p>
+              <p className="text-xs md:text-sm text-slate-500 line-clamp-2">
+                {cacheSize === null ? '计算中...' : formatSize(cacheSize)} · 当前服务器的已下载章节与封面
+              </p>
+            </div>
+            <button
+              onClick={handleClearCache}
+              disabled={clearingCache || !cacheSize}
+              className="flex-shrink-0 flex items-center gap-2 px-4 py-2 text-sm font-bold rounded-xl bg-red-50 dark:bg-red-900/20 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors disabled:opacity-50"
+            >
+              <Trash2 size={16} />
+              {clearingCache ? '清理中...' : '清空缓存'}
+            </button>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pt-4 mt-4 border-t border-slate-100 dark:border-slate-800">
+            <div>
+              <p className="font-bold dark:text-white">存储上限</p>
+              <p className="text-xs md:text-sm text-slate-500">超出后批量下载将自动暂停</p>
+            </div>
+            <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl self-start sm:self-auto w-full sm:w-auto">
+              {[2, 5, 10, 20, 0].map(gb => (
+                <button
+                  key={gb}
+                  onClick={() => setStorageBudget(gb * 1024 * 1024 * 1024)}
+                  className={`flex-1 sm:flex-none px-2 md:px-4 py-2 text-sm font-bold rounded-lg transition-all ${
+                    storageBudget === gb * 1024 * 1024 * 1024 ? 'bg-white dark:bg-slate-700 shadow-sm text-primary-600' : 'text-slate-500'
+                  }`}
+                >
+                  {gb ? `${gb}GB` : '不限'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4 pt-4 mt-4 border-t border-slate-100 dark:border-slate-800">
+            <div className="flex-1 min-w-0">
+              <p className="font-bold dark:text-white truncate">自动下载后续章节</p>
+              <p className="text-xs md:text-sm text-slate-500 line-clamp-2">切换到下一章时，自动下载之后的 {autoDownloadCount} 章供离线收听</p>
+            </div>
+            <button
+              onClick={() => setClientAutoDownload(!clientAutoDownload)}
+              className={`flex-shrink-0 w-12 md:w-14 h-7 md:h-8 rounded-full transition-all relative ${
+                clientAutoDownload ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+              }`}
+            >
+              <div className={`absolute top-1 w-5 md:w-6 h-5 md:h-6 bg-white rounded-full transition-all ${
+                clientAutoDownload ? 'left-6 md:left-7' : 'left-1'
+              }`} />
+            </button>
+          </div>
+
+          {clientAutoDownload && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pt-4">
+              <p className="font-bold dark:text-white">自动下载章节数</p>
+              <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl self-start sm:self-auto w-full sm:w-auto">
+                {[1, 3, 5, 10].map(count => (
+                  <button
+                    key={count}
+                    onClick={() => setAutoDownloadCount(count)}
+                    className={`flex-1 sm:flex-none px-2 md:px-4 py-2 text-sm font-bold rounded-lg transition-all ${
+                      autoDownloadCount === count ? 'bg-white dark:bg-slate-700 shadow-sm text-primary-600' : 'text-slate-500'
+                    }`}
+                  >
+                    {count} 章
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
+        )}
+
+        {/* Keyboard Shortcuts */}
+        <section className="bg-white dark:bg-slate-900 rounded-3xl p-4 md:p-6 border border-slate-100 dark:border-slate-800 shadow-sm">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-bold dark:text-white flex items-center gap-2">
+              <Keyboard size={20} className="text-sky-500" />
+              快捷键
+            </h2>
+            <button
+              onClick={resetBindings}
+              className="flex items-center gap-1 text-xs font-bold text-slate-400 hover:text-primary-600 transition-colors"
+            >
+              <RotateCcw size={14} />
+              恢复默认
+            </button>
+          </div>
+          <div className="space-y-2">
+            {SHORTCUT_ACTIONS.map(action => (
+              <div key={action.id} className="flex items-center justify-between gap-4 py-1">
+                <p className="text-sm font-bold text-slate-700 dark:text-slate-300">{action.label}</p>
+                <button
+                  onClick={() => setRecordingAction(recordingAction === action.id ? null : action.id)}
+                  className={`min-w-[96px] px-3 py-1.5 text-sm font-mono font-bold rounded-lg border transition-all ${
+                    recordingAction === action.id
+                      ? 'border-primary-600 text-primary-600 bg-primary-50 dark:bg-primary-900/20 animate-pulse'
+                      : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-primary-400'
+                  }`}
+                >
+                  {recordingAction === action.id ? '请按键...' : (bindings[action.id] ? formatShortcut(bindings[action.id]) : '未设置')}
+                </button>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400 mt-3">点击按键后输入新的快捷键，Esc 取消，Backspace 清除</p>
+
+          {electronAPI && (
+            <div className="flex items-center justify-between gap-4 pt-4 mt-4 border-t border-slate-100 dark:border-slate-800">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold dark:text-white truncate">全局快捷键</p>
+                <p className="text-xs md:text-sm text-slate-500 line-clamp-2">
+                  窗口未激活时，使用 {formatShortcut(GLOBAL_SHORTCUT_PREFIX.replace('CommandOrControl', 'Ctrl'))}按键 控制播放
+                </p>
+              </div>
+              <button
+                onClick={() => setGlobalEnabled(!globalEnabled)}
+                className={`flex-shrink-0 w-12 md:w-14 h-7 md:h-8 rounded-full transition-all relative ${
+                  globalEnabled ? 'bg-primary-600' : 'bg-slate-200 dark:bg-slate-700'
+                }`}
+              >
+                <div className={`absolute top-1 w-5 md:w-6 h-5 md:h-6 bg-white rounded-full transition-all ${
+                  globalEnabled ? 'left-6 md:left-7' : 'left-1'
+                }`} />
+              </button>
+            </div>
+          )}
+        </section>
+
         {/* Widget Settings */}
         {user?.role === 'admin' && (
         <section className="bg-white dark:bg-slate-900 rounded-3xl p-4 md:p-6 border border-slate-100 dark:border-slate-800 shadow-sm">
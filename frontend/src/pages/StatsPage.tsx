@@ -0,0 +1,354 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  BarChart3,
+  Clock,
+  Flame,
+  Trophy,
+  Zap,
+  Book as BookIcon,
+  User,
+  Mic2,
+  Trash2
+} from 'lucide-react';
+import { useListeningStatsStore, getDayKey } from '../store/listeningStatsStore';
+import type { BookStatsMeta } from '../store/listeningStatsStore';
+import { usePlayerStore } from '../store/playerStore';
+import apiClient from '../api/client';
+import { getCoverUrl } from '../utils/image';
+
+type Period = 'day' | 'week' | 'month';
+
+const PERIOD_BUCKETS: Record<Period, number> = { day: 14, week: 12, month: 12 };
+
+const formatDuration = (seconds: number) => {
+  if (!seconds || seconds <= 0) return '0分钟';
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}小时${minutes}分钟`;
+  }
+  return `${minutes}分钟`;
+};
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// Monday-based start of week
+const startOfWeek = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return addDays(start, -((start.getDay() + 6) % 7));
+};
+
+const parseDayKey = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const StatsPage: React.FC = () => {
+  const days = useListeningStatsStore(state => state.days);
+  const books = useListeningStatsStore(state => state.books);
+  const clear = useListeningStatsStore(state => state.clear);
+  const currentChapter = usePlayerStore(state => state.currentChapter);
+  const [period, setPeriod] = useState<Period>('day');
+
+  // Bring in what the server recorded from other devices
+  useEffect(() => {
+    if (!navigator.onLine || window.location.hash.includes('/offline')) return;
+    apiClient.get('/api/progress/recent')
+      .then(res => useListeningStatsStore.getState().mergeServerProgress(res.data || []))
+      .catch(err => console.error('获取服务器收听记录失败', err));
+  }, []);
+
+  // Total listened seconds per day
+  const dailyTotals = useMemo(() => {
+    const totals: Record<string, number> = {};
+    for (const [day, perBook] of Object.entries(days)) {
+      totals[day] = Object.values(perBook).reduce((sum, s) => sum + s.listened, 0);
+    }
+    return totals;
+  }, [days]);
+
+  const chartData = useMemo(() => {
+    const today = new Date();
+    const buckets: { label: string; value: number }[] = [];
+    const count = PERIOD_BUCKETS[period];
+
+    for (let i = count - 1; i >= 0; i--) {
+      let start: Date;
+      let end: Date;
+      let label: string;
+      if (period === 'day') {
+        start = addDays(new Date(today.getFullYear(), today.getMonth(), today.getDate()), -i);
+        end = addDays(start, 1);
+        label = `${start.getMonth() + 1}/${start.getDate()}`;
+      } else if (period === 'week') {
+        start = addDays(startOfWeek(today), -7 * i);
+        end = addDays(start, 7);
+        label = `${start.getMonth() + 1}/${start.getDate()}`;
+      } else {
+        start = new Date(today.getFullYear(), today.getMonth() - i, 1);
+        end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+        label = `${start.getMonth() + 1}月`;
+      }
+      const value = Object.entries(dailyTotals).reduce((sum, [day, seconds]) => {
+        const date = parseDayKey(day);
+        return date >= start && date < end ? sum + seconds : sum;
+      }, 0);
+      buckets.push({ label, value });
+    }
+    return buckets;
+  }, [dailyTotals, period]);
+
+  const maxBucket = Math.max(...chartData.map(b => b.value), 1);
+
+  const streaks = useMemo(() => {
+    const active = new Set(Object.keys(dailyTotals).filter(day => dailyTotals[day] >= 60));
+    // Today may still be in progress, so a streak ending yesterday counts as current
+    let cursor = new Date();
+    if (!active.has(getDayKey(cursor))) cursor = addDays(cursor, -1);
+    let current = 0;
+    while (active.has(getDayKey(cursor))) {
+      current++;
+      cursor = addDays(cursor, -1);
+    }
+
+    let longest = 0;
+    for (const day of active) {
+      if (active.has(getDayKey(addDays(parseDayKey(day), -1)))) continue;
+      let length = 0;
+      let date = parseDayKey(day);
+      while (active.has(getDayKey(date))) {
+        length++;
+        date = addDays(date, 1);
+      }
+      longest = Math.max(longest, length);
+    }
+    return { current, longest };
+  }, [dailyTotals]);
+
+  const bookTotals = useMemo(() => {
+    const totals: Record<string, { listened: number; content: number; remote: number }> = {};
+    for (const perBook of Object.values(days)) {
+      for (const [bookId, s] of Object.entries(perBook)) {
+        const entry = totals[bookId] || { listened: 0, content: 0, remote: 0 };
+        totals[bookId] = {
+          listened: entry.listened + s.listened,
+          content: entry.content + s.content,
+          remote: entry.remote + (s.remote || 0)
+        };
+      }
+    }
+    return Object.entries(totals)
+      .filter(([bookId]) => books[bookId])
+      .map(([bookId, t]) => ({ bookId, meta: books[bookId], ...t }))
+      .sort((a, b) => b.listened - a.listened);
+  }, [days, books]);
+
+  const rankBy = (key: 'author' | 'narrator') => {
+    const totals: Record<string, number> = {};
+    for (const entry of bookTotals) {
+      const name = entry.meta[key];
+      if (name) totals[name] = (totals[name] || 0) + entry.listened;
+    }
+    return Object.entries(totals).sort((a, b) => b[1] - a[1]).slice(0, 5);
+  };
+
+  const totalListened = bookTotals.reduce((sum, b) => sum + b.listened, 0);
+  // Speed is only known for what was played on this device
+  const localListened = bookTotals.reduce((sum, b) => sum + b.listened - b.remote, 0);
+  const localContent = bookTotals.reduce((sum, b) => sum + b.content - b.remote, 0);
+  const averageSpeed = localListened > 0 ? localContent / localListened : 1;
+  const todayListened = dailyTotals[getDayKey()] || 0;
+
+  const getCompletion = (meta: BookStatsMeta) =>
+    meta.totalChapters > 0 ? Math.min(1, meta.completedChapters.length / meta.totalChapters) : 0;
+
+  const handleClear = () => {
+    if (!window.confirm('确定要清空本设备上的所有收听统计吗？')) return;
+    clear();
+  };
+
+  return (
+    <div className="flex-1 min-h-full flex flex-col p-4 sm:p-6 md:p-8 animate-in fade-in duration-500">
+      <div className="flex-1 space-y-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-slate-900 dark:text-white flex items-center gap-3">
+              <BarChart3 className="text-primary-600" />
+              收听统计
+            </h1>
+            <p className="text-sm md:text-base text-slate-500 dark:text-slate-400 mt-1">基于本设备的播放记录与服务器同步的收听进度</p>
+          </div>
+          {bookTotals.length > 0 && (
+            <button
+              onClick={handleClear}
+              className="self-start flex items-center gap-2 px-4 py-2 text-sm font-bold rounded-xl text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+            >
+              <Trash2 size={16} />
+              清空统计
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <StatCard icon={<Clock className="text-orange-500" size={20} />} label="今日收听" value={formatDuration(todayListened)} />
+          <StatCard icon={<Trophy className="text-blue-500" size={20} />} label="累计收听" value={formatDuration(totalListened)} />
+          <StatCard icon={<Flame className="text-red-500" size={20} />} label={`连续收听 · 最长 ${streaks.longest} 天`} value={streaks.current} unit="天" />
+          <StatCard icon={<Zap className="text-green-500" size={20} />} label="平均倍速" value={averageSpeed.toFixed(2)} unit="x" />
+        </div>
+
+        {/* Listening time chart */}
+        <section className="bg-white dark:bg-slate-900 rounded-3xl p-4 md:p-6 border border-slate-100 dark:border-slate-800 shadow-sm">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-bold dark:text-white">收听时长</h2>
+            <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl">
+              {([['day', '日'], ['week', '周'], ['month', '月']] as [Period, string][]).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setPeriod(id)}
+                  className={`px-4 py-1.5 text-sm font-bold rounded-lg transition-all ${
+                    period === id ? 'bg-white dark:bg-slate-700 shadow-sm text-primary-600' : 'text-slate-500'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-end gap-1 sm:gap-2 h-48">
+            {chartData.map((bucket, index) => (
+              <div key={index} className="flex-1 h-full flex flex-col items-center justify-end gap-2 min-w-0 group">
+                <div className="relative w-full flex-1 flex items-end">
+                  <div
+                    className="w-full rounded-t-lg bg-primary-500/80 group-hover:bg-primary-600 transition-all"
+                    style={{ height: `${(bucket.value / maxBucket) * 100}%`, minHeight: bucket.value > 0 ? 4 : 0 }}
+                  />
+                  <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 px-2 py-1 text-[10px] font-bold whitespace-nowrap rounded-md bg-slate-900 text-white opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity">
+                    {formatDuration(bucket.value)}
+                  </div>
+                </div>
+                <span className="text-[10px] text-slate-400 font-medium truncate w-full text-center">{bucket.label}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <RankingCard
+            icon={<User size={20} className="text-purple-500" />}
+            title="最常听的作者"
+            items={rankBy('author')}
+          />
+          <RankingCard
+            icon={<Mic2 size={20} className="text-pink-500" />}
+            title="最常听的演播"
+            items={rankBy('narrator')}
+          />
+        </div>
+
+        {/* Per-book breakdown */}
+        <section className="bg-white dark:bg-slate-900 rounded-3xl p-4 md:p-6 border border-slate-100 dark:border-slate-800 shadow-sm">
+          <h2 className="text-xl font-bold dark:text-white mb-6 flex items-center gap-2">
+            <BookIcon size={20} className="text-primary-600" />
+            最常听的书籍
+          </h2>
+          {bookTotals.length > 0 ? (
+            <div className="space-y-3">
+              {bookTotals.slice(0, 20).map(({ bookId, meta, listened, content }) => {
+                const completion = getCompletion(meta);
+                return (
+                  <Link
+                    key={bookId}
+                    to={`/book/${bookId}`}
+                    className="flex items-center gap-3 sm:gap-4 p-2 rounded-2xl hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors"
+                  >
+                    <img
+                      src={getCoverUrl(meta.coverUrl, meta.libraryId, bookId)}
+                      alt={meta.title}
+                      className="w-12 h-16 rounded-lg object-cover shrink-0 bg-slate-100 dark:bg-slate-800"
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).src = 'https://placehold.co/300x400?text=No+Cover';
+                      }}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-bold text-sm text-slate-900 dark:text-white truncate">{meta.title}</p>
+                      <p className="text-xs text-slate-400 mt-0.5 truncate">
+                        {formatDuration(listened)} · 平均 {(listened > 0 ? content / listened : 1).toFixed(2)}x
+                      </p>
+                      <div className="mt-2 flex items-center gap-2">
+                        <div className="flex-1 h-1.5 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+                          <div className="h-full bg-primary-600 rounded-full" style={{ width: `${completion * 100}%` }} />
+                        </div>
+                        <span className="text-[10px] font-bold text-slate-400 shrink-0">
+                          {meta.totalChapters > 0 ? `${Math.round(completion * 100)}%` : '--'}
+                        </span>
+                      </div>
+                    </div>
+                  </Link>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="py-10 text-center text-sm text-slate-400">还没有收听记录，播放一本书后这里会显示统计</p>
+          )}
+        </section>
+      </div>
+
+      {/* Dynamic Safe Bottom Spacer */}
+      <div
+        className="shrink-0 transition-all duration-300"
+        style={{ height: currentChapter ? 'var(--safe-bottom-with-player)' : 'var(--safe-bottom-base)' }}
+      />
+    </div>
+  );
+};
+
+const StatCard = ({ icon, label, value, unit = '' }: { icon: React.ReactNode, label: string, value: string | number, unit?: string }) => (
+  <div className="bg-white dark:bg-slate-900 p-4 md:p-6 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-800 flex items-center gap-3 md:gap-4">
+    <div className="w-10 h-10 md:w-12 md:h-12 rounded-xl bg-slate-50 dark:bg-slate-800 flex items-center justify-center shrink-0">
+      {icon}
+    </div>
+    <div className="min-w-0">
+      <p className="text-[10px] md:text-sm text-slate-500 dark:text-slate-400 font-bold uppercase tracking-tight truncate">{label}</p>
+      <p className="text-lg md:text-xl font-bold dark:text-white truncate">
+        {value}
+        {unit && <span className="text-[10px] md:text-xs font-bold ml-0.5 opacity-50">{unit}</span>}
+      </p>
+    </div>
+  </div>
+);
+
+const RankingCard = ({ icon, title, items }: { icon: React.ReactNode, title: string, items: [string, number][] }) => {
+  const max = Math.max(...items.map(([, v]) => v), 1);
+  return (
+    <section className="bg-white dark:bg-slate-900 rounded-3xl p-4 md:p-6 border border-slate-100 dark:border-slate-800 shadow-sm">
+      <h2 className="text-xl font-bold dark:text-white mb-6 flex items-center gap-2">
+        {icon}
+        {title}
+      </h2>
+      {items.length > 0 ? (
+        <div className="space-y-3">
+          {items.map(([name, seconds]) => (
+            <div key={name}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="font-bold text-slate-700 dark:text-slate-300 truncate">{name}</span>
+                <span className="text-xs text-slate-400 shrink-0 ml-2">{formatDuration(seconds)}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+                <div className="h-full bg-primary-500 rounded-full" style={{ width: `${(seconds / max) * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="py-6 text-center text-sm text-slate-400">暂无数据</p>
+      )}
+    </section>
+  );
+};
+
+export default StatsPage;
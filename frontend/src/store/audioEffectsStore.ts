@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { useAuthStore } from './authStore';
+import { serverScopedStorage } from '../utils/storage';
+
+export interface AudioEffects {
+  // Speed through pauses between sentences
+  silenceSpeedup: boolean;
+  // Dialogue EQ: cut rumble, lift speech presence
+  voiceBoost: boolean;
+  // Compressor that narrows the gap between whispers and shouting
+  nightMode: boolean;
+  // Even out loudness across chapters
+  loudnessNormalization: boolean;
+}
+
+export const DEFAULT_AUDIO_EFFECTS: AudioEffects = {
+  silenceSpeedup: false,
+  voiceBoost: false,
+  nightMode: false,
+  loudnessNormalization: false
+};
+
+const GUEST_KEY = 'guest';
+
+interface AudioEffectsState {
+  byUser: Record<string, AudioEffects>;
+
+  // Actions
+  setEffect: (userId: string | undefined, effect: keyof AudioEffects, enabled: boolean) => void;
+}
+
+/** Audio processing toggles, remembered separately for each user signed in on this device */
+export const useAudioEffectsStore = create<AudioEffectsState>()(
+  persist(
+    (set) => ({
+      byUser: {},
+
+      setEffect: (userId, effect, enabled) => set(state => {
+        const key = userId || GUEST_KEY;
+        return {
+          byUser: {
+            ...state.byUser,
+            [key]: { ...DEFAULT_AUDIO_EFFECTS, ...state.byUser[key], [effect]: enabled }
+          }
+        };
+      })
+    }),
+    {
+      name: 'audio-effects',
+      storage: createJSONStorage(() => serverScopedStorage),
+      version: 1,
+      // Version 0 called the silence speed-up "silenceSkip"
+      migrate: (persisted, version) => {
+        const state = persisted as { byUser?: Record<string, AudioEffects & { silenceSkip?: boolean }> };
+        if (version === 0 && state?.byUser) {
+          for (const effects of Object.values(state.byUser)) {
+            if (effects.silenceSkip !== undefined) effects.silenceSpeedup = effects.silenceSkip;
+            delete effects.silenceSkip;
+          }
+        }
+        return state as AudioEffectsState;
+      }
+    }
+  )
+);
+
+/** Effects for the signed-in user */
+export function useUserAudioEffects() {
+  const userId = useAuthStore(state => state.user?.id);
+  const effects = useAudioEffectsStore(state => state.byUser[userId || GUEST_KEY]);
+  const setEffect = useAudioEffectsStore(state => state.setEffect);
+  return {
+    effects: effects || DEFAULT_AUDIO_EFFECTS,
+    setEffect: (effect: keyof AudioEffects, enabled: boolean) => setEffect(userId, effect, enabled)
+  };
+}
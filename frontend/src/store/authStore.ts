@@ -1,18 +1,22 @@
 import { create } from 'zustand';
 import type { User } from '../types';
 import { safeStorage } from '../utils/storage';
+import { saveCredential } from '../utils/credentials';
 
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null; // Long-lived token for renewing `token`, if the server issues one
   serverUrl: string; // The original URL input by user
   activeUrl: string; // The resolved URL (after redirect)
+  endpoints: string[]; // Alternative addresses of the same server in order of preference (LAN, domain, VPN...)
   isAuthenticated: boolean;
-  setAuth: (user: User, token: string) => void;
+  setAuth: (user: User, token: string, refreshToken?: string | null) => void;
   setUser: (user: User) => void;
-  setToken: (token: string) => void;
+  setToken: (token: string, refreshToken?: string | null) => void;
   setServerUrl: (url: string) => void;
   setActiveUrl: (url: string) => void;
+  setEndpoints: (endpoints: string[]) => void;
   logout: () => void;
 }
 
@@ -21,36 +25,75 @@ type WindowWithElectron = Window & { electronAPI?: unknown };
 const isElectron = typeof window !== 'undefined' && !!(window as WindowWithElectron).electronAPI;
 const defaultServerUrl = isElectron ? '' : (import.meta.env.PROD ? window.location.origin : 'http://localhost:3000');
 
+const loadEndpoints = (): string[] => {
+  try {
+    const parsed = JSON.parse(safeStorage.getItem('server_endpoints') || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// Electron keeps refresh tokens out of localStorage: a remembered login has it in
+// the keychain (see LoginPage), otherwise it only lives in memory for this run
+const storeRefreshToken = (refreshToken: string | null) => {
+  if (refreshToken && !isElectron) {
+    safeStorage.setItem('refresh_token', refreshToken);
+  } else {
+    safeStorage.removeItem('refresh_token');
+  }
+};
+
 export const useAuthStore = create<AuthState>((set) => ({
   user: JSON.parse(safeStorage.getItem('user') || 'null'),
   token: safeStorage.getItem('auth_token'),
+  refreshToken: isElectron ? null : safeStorage.getItem('refresh_token'),
   serverUrl: safeStorage.getItem('server_url') || defaultServerUrl,
   activeUrl: safeStorage.getItem('active_url') || safeStorage.getItem('server_url') || defaultServerUrl,
+  endpoints: loadEndpoints(),
   isAuthenticated: !!safeStorage.getItem('auth_token'),
-  setAuth: (user, token) => {
+  setAuth: (user, token, refreshToken = null) => {
     safeStorage.setItem('auth_token', token);
     safeStorage.setItem('user', JSON.stringify(user));
-    set({ user, token, isAuthenticated: true });
+    storeRefreshToken(refreshToken);
+    set({ user, token, refreshToken, isAuthenticated: true });
   },
   setUser: (user) => {
     safeStorage.setItem('user', JSON.stringify(user));
     set({ user });
   },
-  setToken: (token) => {
+  // Keeps the current refresh token unless a new one is given
+  setToken: (token, refreshToken) => {
     safeStorage.setItem('auth_token', token);
+    if (refreshToken !== undefined) {
+      storeRefreshToken(refreshToken);
+      set({ refreshToken });
+    }
     set({ token, isAuthenticated: true });
   },
   setServerUrl: (url) => {
     safeStorage.setItem('server_url', url);
     set({ serverUrl: url });
+    // A newly entered address joins the candidates as the preferred one
+    const { endpoints, setEndpoints } = useAuthStore.getState();
+    if (endpoints.length > 0 && url && !endpoints.includes(url)) {
+      setEndpoints([url, ...endpoints]);
+    }
   },
   setActiveUrl: (url) => {
     safeStorage.setItem('active_url', url);
     set({ activeUrl: url });
   },
+  setEndpoints: (endpoints) => {
+    safeStorage.setItem('server_endpoints', JSON.stringify(endpoints));
+    set({ endpoints });
+  },
   logout: () => {
     safeStorage.removeItem('auth_token');
     safeStorage.removeItem('user');
-    set({ user: null, token: null, isAuthenticated: false });
+    safeStorage.removeItem('refresh_token');
+    // The keychain's refresh token is the session too (Electron)
+    if (isElectron) saveCredential({ refreshToken: null });
+    set({ user: null, token: null, refreshToken: null, isAuthenticated: false });
   },
 }));
@@ -0,0 +1,80 @@
+import { create } from 'zustand';
+import apiClient from '../api/client';
+import type { Bookmark } from '../types';
+
+export type NewBookmark = Pick<Bookmark, 'bookId' | 'chapterId' | 'position' | 'title' | 'note'>;
+
+interface BookmarkState {
+  bookmarks: Record<string, Bookmark[]>;
+
+  // Actions
+  fetchBookmarks: (bookId: string) => Promise<void>;
+  addBookmark: (bookmark: NewBookmark) => Promise<Bookmark | null>;
+  updateBookmark: (bookmark: Bookmark, changes: Pick<Bookmark, 'title' | 'note'>) => Promise<boolean>;
+  removeBookmark: (bookmark: Bookmark) => Promise<boolean>;
+}
+
+const replaceIn = (list: Bookmark[] | undefined, bookmark: Bookmark) =>
+  (list || []).map(b => (b.id === bookmark.id ? bookmark : b));
+
+export const useBookmarkStore = create<BookmarkState>()((set) => ({
+  bookmarks: {},
+
+  fetchBookmarks: async (bookId) => {
+    try {
+      const res = await apiClient.get<Bookmark[]>('/api/bookmarks', { params: { bookId } });
+      set(state => ({ bookmarks: { ...state.bookmarks, [bookId]: res.data || [] } }));
+    } catch (err) {
+      console.error('获取书签失败', err);
+    }
+  },
+
+  addBookmark: async (bookmark) => {
+    try {
+      const res = await apiClient.post<Bookmark>('/api/bookmarks', {
+        ...bookmark,
+        position: Math.floor(bookmark.position)
+      });
+      set(state => ({
+        bookmarks: {
+          ...state.bookmarks,
+          [bookmark.bookId]: [...(state.bookmarks[bookmark.bookId] || []), res.data]
+        }
+      }));
+      return res.data;
+    } catch (err) {
+      console.error('添加书签失败', err);
+      return null;
+    }
+  },
+
+  updateBookmark: async (bookmark, changes) => {
+    try {
+      const res = await apiClient.patch<Bookmark>(`/api/bookmarks/${bookmark.id}`, changes);
+      const updated = { ...bookmark, ...changes, ...res.data };
+      set(state => ({
+        bookmarks: { ...state.bookmarks, [bookmark.bookId]: replaceIn(state.bookmarks[bookmark.bookId], updated) }
+      }));
+      return true;
+    } catch (err) {
+      console.error('更新书签失败', err);
+      return false;
+    }
+  },
+
+  removeBookmark: async (bookmark) => {
+    try {
+      await apiClient.delete(`/api/bookmarks/${bookmark.id}`);
+      set(state => ({
+        bookmarks: {
+          ...state.bookmarks,
+          [bookmark.bookId]: (state.bookmarks[bookmark.bookId] || []).filter(b => b.id !== bookmark.id)
+        }
+      }));
+      return true;
+    } catch (err) {
+      console.error('删除书签失败', err);
+      return false;
+    }
+  }
+}));
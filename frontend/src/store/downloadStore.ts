@@ -0,0 +1,448 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Book, Chapter, DownloadProgress } from '../types';
+import { useAuthStore } from './authStore';
+import { getElectronAPI } from '../utils/env';
+import { getCoverUrl } from '../utils/image';
+import { getCachedChapterUrl, getChapterFileName, getChapterStreamUrl } from '../utils/download';
+import { formatSize } from '../utils/size';
+
+export interface DownloadedChapter {
+  chapter: Chapter;
+  fileName: string;
+  size: number;
+  downloadedAt: string;
+}
+
+export interface DownloadedBook {
+  book: Book;
+  serverUrl: string;
+  coverPath?: string;
+  chapters: Record<string, DownloadedChapter>;
+}
+
+export interface DownloadTask {
+  bookId: string;
+  chapterId: string;
+  status: DownloadProgress['status'];
+  progress: number;
+  error?: string;
+}
+
+export interface BookDownloadQueue {
+  book: Book;
+  pending: Chapter[];
+  active: Chapter[];
+  status: 'running' | 'paused';
+  total: number;
+  failed: number;
+  error?: string;
+}
+
+export type EnqueueResult = { success: boolean; queued: number; error?: string };
+
+interface DownloadState {
+  // Keyed by getDownloadKey, book IDs are only unique per server
+  books: Record<string, DownloadedBook>;
+  tasks: Record<string, DownloadTask>;
+  queues: Record<string, BookDownloadQueue>;
+  storageBudget: number;
+
+  // Actions
+  downloadChapter: (book: Book, chapter: Chapter) => Promise<boolean>;
+  redownloadChapter: (bookId: string, chapterId: string) => Promise<boolean>;
+  removeChapter: (bookId: string, chapterId: string) => Promise<void>;
+  removeBook: (bookId: string) => Promise<void>;
+  cacheCover: (bookId: string, force?: boolean) => Promise<void>;
+  syncWithDisk: () => Promise<void>;
+  isDownloaded: (chapterId: string) => boolean;
+  getLocalSource: (chapterId: string) => string | null;
+  enqueueBook: (book: Book, chapters: Chapter[]) => Promise<EnqueueResult>;
+  downloadNextChapters: (book: Book, chapters: Chapter[], fromChapterId: string, count: number) => Promise<EnqueueResult>;
+  pauseQueue: (bookId: string) => void;
+  resumeQueue: (bookId: string) => void;
+  cancelQueue: (bookId: string) => Promise<void>;
+  setStorageBudget: (bytes: number) => void;
+}
+
+const MAX_CONCURRENT_DOWNLOADS = 2;
+// Rough size estimate used for the budget check (~128 kbps)
+const ESTIMATED_BYTES_PER_SECOND = 16 * 1024;
+const DEFAULT_STORAGE_BUDGET = 10 * 1024 * 1024 * 1024;
+
+/** Key of a book in `books`: the server it was downloaded from plus its ID on that server */
+export const getDownloadKey = (serverUrl: string | null | undefined, bookId: string) => `${serverUrl ?? ''}::${bookId}`;
+
+// Key of a book on the current server, the one whose cache directory is in use
+const currentKey = (bookId: string) => getDownloadKey(useAuthStore.getState().serverUrl, bookId);
+
+const estimateSize = (chapters: Chapter[]) =>
+  chapters.reduce((sum, c) => sum + (c.duration || 0) * ESTIMATED_BYTES_PER_SECOND, 0);
+
+/** Whether `bytes` more fit into the storage budget (0 = unlimited) */
+const hasStorageFor = async (bytes: number) => {
+  const { storageBudget } = useDownloadStore.getState();
+  const electronAPI = getElectronAPI();
+  if (!storageBudget || !electronAPI) return true;
+  const used = await electronAPI.getCacheSize();
+  return used + bytes <= storageBudget;
+};
+
+const updateQueue = (bookId: string, update: (queue: BookDownloadQueue) => Partial<BookDownloadQueue>) => {
+  useDownloadStore.setState(state => {
+    const queue = state.queues[bookId];
+    if (!queue) return state;
+    return { queues: { ...state.queues, [bookId]: { ...queue, ...update(queue) } } };
+  });
+};
+
+const runQueuedDownload = async (book: Book, chapter: Chapter) => {
+  const ok = await useDownloadStore.getState().downloadChapter(book, chapter);
+  useDownloadStore.setState(state => {
+    const queue = state.queues[book.id];
+    if (!queue) {
+      // Cancelled while in flight, don't leave a stale task behind
+      if (ok || !state.tasks[chapter.id]) return state;
+      const tasks = { ...state.tasks };
+      delete tasks[chapter.id];
+      return { tasks };
+    }
+    const active = queue.active.filter(c => c.id !== chapter.id);
+    // Aborted by pauseQueue: put it back in front, the .part file lets it resume
+    const aborted = !ok && state.tasks[chapter.id]?.status === 'paused';
+    const pending = aborted ? [chapter, ...queue.pending] : queue.pending;
+    const queues = { ...state.queues };
+    if (active.length === 0 && pending.length === 0) {
+      delete queues[book.id];
+    } else {
+      queues[book.id] = { ...queue, active, pending, failed: !ok && !aborted ? queue.failed + 1 : queue.failed };
+    }
+    return { queues };
+  });
+  pumpQueues();
+};
+
+let isPumping = false;
+let pumpRequested = false;
+
+/** Start queued chapters until the concurrency limit is reached */
+const pumpQueues = async () => {
+  if (isPumping) {
+    pumpRequested = true;
+    return;
+  }
+  isPumping = true;
+  try {
+    do {
+      pumpRequested = false;
+      for (;;) {
+        const { queues } = useDownloadStore.getState();
+        const activeCount = Object.values(queues).reduce((n, q) => n + q.active.length, 0);
+        if (activeCount >= MAX_CONCURRENT_DOWNLOADS) break;
+        const queue = Object.values(queues).find(q => q.status === 'running' && q.pending.length > 0);
+        if (!queue) break;
+
+        const chapter = queue.pending[0];
+        if (!(await hasStorageFor(estimateSize([chapter])))) {
+          updateQueue(queue.book.id, () => ({ status: 'paused', error: '已达到离线存储上限' }));
+          continue;
+        }
+
+        // The queue may have been paused or cancelled while checking storage
+        const latest = useDownloadStore.getState().queues[queue.book.id];
+        if (!latest || latest.status !== 'running' || latest.pending[0]?.id !== chapter.id) continue;
+
+        updateQueue(queue.book.id, q => ({ pending: q.pending.slice(1), active: [...q.active, chapter] }));
+        runQueuedDownload(queue.book, chapter);
+      }
+    } while (pumpRequested);
+  } finally {
+    isPumping = false;
+  }
+};
+
+let unsubscribeProgress: (() => void) | null = null;
+
+/** Register a single listener for `download-progress` events from the main process */
+const ensureProgressListener = () => {
+  const electronAPI = getElectronAPI();
+  if (!electronAPI || unsubscribeProgress) return;
+  unsubscribeProgress = electronAPI.onDownloadProgress((data) => {
+    if (!data.taskId) return;
+    useDownloadStore.setState(state => {
+      const task = state.tasks[data.taskId!];
+      if (!task) return state;
+      return {
+        tasks: {
+          ...state.tasks,
+          [data.taskId!]: {
+            ...task,
+            status: data.status,
+            progress: data.progress ?? task.progress,
+            error: data.error
+          }
+        }
+      };
+    });
+  });
+};
+
+export const useDownloadStore = create<DownloadState>()(
+  persist(
+    (set, get) => ({
+      books: {},
+      tasks: {},
+      queues: {},
+      storageBudget: DEFAULT_STORAGE_BUDGET,
+
+      downloadChapter: async (book, chapter) => {
+        const electronAPI = getElectronAPI();
+        if (!electronAPI) return false;
+        ensureProgressListener();
+
+        const taskId = chapter.id;
+        const fileName = getChapterFileName(chapter);
+        // The file lands in this server's cache directory even if the server is switched meanwhile
+        const { serverUrl } = useAuthStore.getState();
+        const key = getDownloadKey(serverUrl, book.id);
+        set(state => ({
+          tasks: {
+            ...state.tasks,
+            [taskId]: { bookId: book.id, chapterId: chapter.id, status: 'downloading', progress: 0 }
+          }
+        }));
+
+        const result = await electronAPI.downloadChapter(getChapterStreamUrl(chapter.id), fileName, taskId);
+        if (!result.success) {
+          set(state => ({
+            tasks: {
+              ...state.tasks,
+              [taskId]: {
+                bookId: book.id,
+                chapterId: chapter.id,
+                status: result.aborted ? 'paused' : 'failed',
+                progress: state.tasks[taskId]?.progress ?? 0,
+                error: result.error
+              }
+            }
+          }));
+          return false;
+        }
+
+        set(state => {
+          const existing = state.books[key];
+          const remainingTasks = { ...state.tasks };
+          delete remainingTasks[taskId];
+          return {
+            tasks: remainingTasks,
+            books: {
+              ...state.books,
+              [key]: {
+                book,
+                serverUrl,
+                coverPath: existing?.coverPath,
+                chapters: {
+                  ...existing?.chapters,
+                  [chapter.id]: {
+                    chapter,
+                    fileName,
+                    size: result.size ?? 0,
+                    downloadedAt: new Date().toISOString()
+                  }
+                }
+              }
+            }
+          };
+        });
+
+        if (!get().books[key]?.coverPath && key === currentKey(book.id)) {
+          get().cacheCover(book.id);
+        }
+        return true;
+      },
+
+      redownloadChapter: async (bookId, chapterId) => {
+        const electronAPI = getElectronAPI();
+        const target = get().books[currentKey(bookId)];
+        const entry = target?.chapters[chapterId];
+        if (!electronAPI || !entry) return false;
+        await electronAPI.removeCachedFile(entry.fileName);
+        return get().downloadChapter(target.book, entry.chapter);
+      },
+
+      removeChapter: async (bookId, chapterId) => {
+        const key = currentKey(bookId);
+        const entry = get().books[key]?.chapters[chapterId];
+        if (!entry) return;
+        await getElectronAPI()?.removeCachedFile(entry.fileName);
+        set(state => {
+          const target = state.books[key];
+          if (!target) return state;
+          const chapters = { ...target.chapters };
+          delete chapters[chapterId];
+          const books = { ...state.books };
+          if (Object.keys(chapters).length === 0) {
+            delete books[key];
+          } else {
+            books[key] = { ...target, chapters };
+          }
+          return { books };
+        });
+      },
+
+      removeBook: async (bookId) => {
+        const key = currentKey(bookId);
+        const target = get().books[key];
+        if (!target) return;
+        const electronAPI = getElectronAPI();
+        for (const entry of Object.values(target.chapters)) {
+          await electronAPI?.removeCachedFile(entry.fileName);
+        }
+        set(state => {
+          const books = { ...state.books };
+          delete books[key];
+          return { books };
+        });
+      },
+
+      cacheCover: async (bookId, force = false) => {
+        const electronAPI = getElectronAPI();
+        const key = currentKey(bookId);
+        const target = get().books[key];
+        if (!electronAPI || !target?.book.coverUrl || !navigator.onLine) return;
+        try {
+          const coverUrl = getCoverUrl(target.book.coverUrl, target.book.libraryId, target.book.id);
+          const result = await electronAPI.downloadCover(coverUrl, bookId, force);
+          if (result.success && result.path) {
+            set(state => state.books[key] ? {
+              books: { ...state.books, [key]: { ...state.books[key], coverPath: result.path } }
+            } : state);
+          }
+        } catch (err) {
+          console.error('缓存封面失败', err);
+        }
+      },
+
+      // Drop entries whose files were removed outside the app (e.g. "clear cache")
+      syncWithDisk: async () => {
+        const electronAPI = getElectronAPI();
+        if (!electronAPI) return;
+        const { serverUrl } = useAuthStore.getState();
+        const files = await electronAPI.listCachedFiles();
+        const onDisk = new Set(files.map(f => f.fileName));
+        set(state => {
+          const books: Record<string, DownloadedBook> = {};
+          for (const [key, entry] of Object.entries(state.books)) {
+            if (entry.serverUrl !== serverUrl) {
+              books[key] = entry;
+              continue;
+            }
+            const chapters = Object.fromEntries(
+              Object.entries(entry.chapters).filter(([, c]) => onDisk.has(c.fileName))
+            );
+            if (Object.keys(chapters).length > 0) {
+              books[key] = { ...entry, chapters };
+            }
+          }
+          return { books };
+        });
+      },
+
+      isDownloaded: (chapterId) => {
+        return get().getLocalSource(chapterId) !== null;
+      },
+
+      getLocalSource: (chapterId) => {
+        // Chapter IDs are only unique per server as well, look in this server's books
+        const prefix = getDownloadKey(useAuthStore.getState().serverUrl, '');
+        for (const [key, entry] of Object.entries(get().books)) {
+          const download = key.startsWith(prefix) ? entry.chapters[chapterId] : undefined;
+          if (download) return getCachedChapterUrl(download.fileName);
+        }
+        return null;
+      },
+
+      enqueueBook: async (book, chapters) => {
+        if (!getElectronAPI()) return { success: false, queued: 0, error: '离线下载仅在桌面客户端中可用' };
+        const existing = get().queues[book.id];
+        const queuedIds = new Set([...(existing?.pending || []), ...(existing?.active || [])].map(c => c.id));
+        const toAdd = chapters.filter(c => !queuedIds.has(c.id) && !get().isDownloaded(c.id));
+        if (toAdd.length === 0) return { success: true, queued: 0 };
+
+        const estimated = estimateSize(toAdd);
+        if (!(await hasStorageFor(estimated))) {
+          return { success: false, queued: 0, error: `预计需要 ${formatSize(estimated)}，超出离线存储上限` };
+        }
+
+        set(state => {
+          const queue = state.queues[book.id];
+          return {
+            queues: {
+              ...state.queues,
+              [book.id]: queue
+                ? { ...queue, pending: [...queue.pending, ...toAdd], total: queue.total + toAdd.length }
+                : { book, pending: toAdd, active: [], status: 'running', total: toAdd.length, failed: 0 }
+            }
+          };
+        });
+        pumpQueues();
+        return { success: true, queued: toAdd.length };
+      },
+
+      downloadNextChapters: async (book, chapters, fromChapterId, count) => {
+        const index = chapters.findIndex(c => c.id === fromChapterId);
+        if (index === -1 || count <= 0) return { success: true, queued: 0 };
+        return get().enqueueBook(book, chapters.slice(index + 1, index + 1 + count));
+      },
+
+      pauseQueue: (bookId) => {
+        const queue = get().queues[bookId];
+        if (!queue || queue.status === 'paused') return;
+        updateQueue(bookId, () => ({ status: 'paused' }));
+        const electronAPI = getElectronAPI();
+        queue.active.forEach(c => electronAPI?.cancelDownload(c.id));
+      },
+
+      resumeQueue: (bookId) => {
+        if (!get().queues[bookId]) return;
+        updateQueue(bookId, () => ({ status: 'running', error: undefined }));
+        pumpQueues();
+      },
+
+      cancelQueue: async (bookId) => {
+        const queue = get().queues[bookId];
+        if (!queue) return;
+        set(state => {
+          const queues = { ...state.queues };
+          delete queues[bookId];
+          const tasks = { ...state.tasks };
+          [...queue.pending, ...queue.active].forEach(c => delete tasks[c.id]);
+          return { queues, tasks };
+        });
+        // Abort in-flight downloads and drop their partial files
+        const electronAPI = getElectronAPI();
+        for (const chapter of queue.active) {
+          await electronAPI?.removeCachedFile(getChapterFileName(chapter));
+        }
+        pumpQueues();
+      },
+
+      setStorageBudget: (bytes) => set({ storageBudget: bytes })
+    }),
+    {
+      name: 'offline-downloads-storage',
+      version: 1,
+      partialize: (state) => ({ books: state.books, storageBudget: state.storageBudget }),
+      // Version 0 keyed books by their ID alone
+      migrate: (persisted, version) => {
+        const state = persisted as Pick<DownloadState, 'books' | 'storageBudget'>;
+        if (version === 0 && state?.books) {
+          state.books = Object.fromEntries(
+            Object.values(state.books).map(entry => [getDownloadKey(entry.serverUrl, entry.book.id), entry])
+          );
+        }
+        return state as DownloadState;
+      }
+    }
+  )
+);
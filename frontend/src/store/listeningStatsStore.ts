@@ -0,0 +1,157 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { Book, Progress } from '../types';
+import { serverScopedStorage } from '../utils/storage';
+
+export interface DailyBookStats {
+  // Wall-clock seconds spent listening
+  listened: number;
+  // Seconds of audio covered (listened × speed)
+  content: number;
+  // Part of both that came from the server's progress history (other devices, speed unknown)
+  remote?: number;
+}
+
+export interface BookStatsMeta {
+  title: string;
+  author?: string;
+  narrator?: string;
+  coverUrl?: string;
+  libraryId?: string;
+  totalChapters: number;
+  completedChapters: string[];
+}
+
+interface ListeningStatsState {
+  days: Record<string, Record<string, DailyBookStats>>;
+  books: Record<string, BookStatsMeta>;
+  // Last server progress seen per chapter, to credit only what changed since
+  serverProgress: Record<string, { position: number; updatedAt: string }>;
+  // Audio covered here per chapter since the last merge, the server history includes it too
+  localCovered: Record<string, number>;
+
+  // Actions
+  record: (book: Book, chapterId: string, totalChapters: number, listened: number, content: number) => void;
+  markChapterCompleted: (bookId: string, chapterId: string) => void;
+  mergeServerProgress: (records: Progress[]) => void;
+  clear: () => void;
+}
+
+/** Local calendar day, e.g. 2024-03-09 */
+export const getDayKey = (date: Date = new Date()) => {
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${m}-${d}`;
+};
+
+export const COMPLETED_RATIO = 0.95;
+
+/**
+ * Listening history recorded on this device from the player's progress ticks,
+ * merged with the progress the server records from every device.
+ * Aggregated per day and book to keep the persisted payload small.
+ */
+export const useListeningStatsStore = create<ListeningStatsState>()(
+  persist(
+    (set) => ({
+      days: {},
+      books: {},
+      serverProgress: {},
+      localCovered: {},
+
+      record: (book, chapterId, totalChapters, listened, content) => set(state => {
+        const day = getDayKey();
+        const dayStats = state.days[day] || {};
+        const entry = dayStats[book.id] || { listened: 0, content: 0 };
+        const meta = state.books[book.id];
+        return {
+          days: {
+            ...state.days,
+            [day]: {
+              ...dayStats,
+              [book.id]: { listened: entry.listened + listened, content: entry.content + content }
+            }
+          },
+          books: {
+            ...state.books,
+            [book.id]: {
+              title: book.title,
+              author: book.author,
+              narrator: book.narrator,
+              coverUrl: book.coverUrl,
+              libraryId: book.libraryId,
+              totalChapters: totalChapters || meta?.totalChapters || 0,
+              completedChapters: meta?.completedChapters || []
+            }
+          },
+          localCovered: {
+            ...state.localCovered,
+            [chapterId]: (state.localCovered[chapterId] || 0) + content
+          }
+        };
+      }),
+
+      markChapterCompleted: (bookId, chapterId) => set(state => {
+        const meta = state.books[bookId];
+        if (!meta || meta.completedChapters.includes(chapterId)) return state;
+        return {
+          books: {
+            ...state.books,
+            [bookId]: { ...meta, completedChapters: [...meta.completedChapters, chapterId] }
+          }
+        };
+      }),
+
+      // Progress the server advanced beyond what was heard here was listened to elsewhere
+      mergeServerProgress: (records) => set(state => {
+        const days = { ...state.days };
+        const books = { ...state.books };
+        const serverProgress = { ...state.serverProgress };
+        const localCovered = { ...state.localCovered };
+
+        for (const record of records) {
+          const previous = serverProgress[record.chapterId];
+          if (previous && previous.updatedAt === record.updatedAt) continue;
+
+          // A position behind the last one is a rewind or restart, nothing to credit
+          const advanced = previous ? Math.max(0, record.position - previous.position) : record.position;
+          const remote = Math.max(0, advanced - (localCovered[record.chapterId] || 0));
+          localCovered[record.chapterId] = 0;
+          serverProgress[record.chapterId] = { position: record.position, updatedAt: record.updatedAt };
+
+          const meta = books[record.bookId] || {
+            title: record.bookTitle || '',
+            coverUrl: record.coverUrl,
+            libraryId: record.libraryId,
+            totalChapters: 0,
+            completedChapters: []
+          };
+          const finished = !!record.chapterDuration && record.position / record.chapterDuration >= COMPLETED_RATIO;
+          books[record.bookId] = finished && !meta.completedChapters.includes(record.chapterId)
+            ? { ...meta, completedChapters: [...meta.completedChapters, record.chapterId] }
+            : meta;
+
+          if (remote <= 0) continue;
+          const day = getDayKey(new Date(record.updatedAt));
+          const entry = days[day]?.[record.bookId] || { listened: 0, content: 0 };
+          days[day] = {
+            ...days[day],
+            [record.bookId]: {
+              listened: entry.listened + remote,
+              content: entry.content + remote,
+              remote: (entry.remote || 0) + remote
+            }
+          };
+        }
+        return { days, books, serverProgress, localCovered };
+      }),
+
+      // The server snapshot is kept so its history isn't imported again
+      clear: () => set({ days: {}, books: {}, localCovered: {} })
+    }),
+    {
+      name: 'listening-stats',
+      storage: createJSONStorage(() => serverScopedStorage)
+    }
+  )
+);
@@ -0,0 +1,234 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { Book, Chapter, Series } from '../types';
+import apiClient from '../api/client';
+import { usePlayerStore } from './playerStore';
+import { useAuthStore } from './authStore';
+import { getDownloadKey, useDownloadStore } from './downloadStore';
+import { useRepeatStore } from './repeatStore';
+import { getSubChapters } from './subChapterStore';
+import { findSubChapterIndex } from '../utils/subChapters';
+import { serverScopedStorage } from '../utils/storage';
+
+export interface QueueItem {
+  id: string;
+  book: Book;
+  // Only this chapter instead of the rest of the book
+  chapter?: Chapter;
+}
+
+export interface UpNext {
+  book: Book;
+  series: Series;
+  // Book that just finished, the countdown is dropped once something else plays
+  afterBookId: string;
+  startsAt: number;
+}
+
+interface PlayQueueState {
+  items: QueueItem[];
+  // Item that is playing now, its book or chapter ends before the queue moves on
+  current: QueueItem | null;
+  continueSeries: boolean;
+  // Next series volume waiting for the countdown to finish
+  upNext: UpNext | null;
+
+  // Actions
+  enqueueBook: (book: Book) => void;
+  enqueueBooks: (books: Book[]) => void;
+  enqueueChapter: (book: Book, chapter: Chapter) => void;
+  remove: (id: string) => void;
+  move: (fromIndex: number, toIndex: number) => void;
+  clear: () => void;
+  setContinueSeries: (enabled: boolean) => void;
+  playItem: (item: QueueItem) => Promise<boolean>;
+  advance: () => Promise<boolean>;
+  startUpNext: () => Promise<boolean>;
+  cancelUpNext: () => void;
+}
+
+export const UP_NEXT_COUNTDOWN_SECONDS = 10;
+
+let upNextTimer: ReturnType<typeof setTimeout> | null = null;
+// advance() still running; skip-outro and double clicks call again before the next item loads
+let advancing: Promise<boolean> | null = null;
+
+const clearUpNextTimer = () => {
+  if (upNextTimer) clearTimeout(upNextTimer);
+  upNextTimer = null;
+};
+
+const createItem = (book: Book, chapter?: Chapter): QueueItem => ({
+  id: `${book.id}:${chapter?.id ?? 'book'}:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  book,
+  chapter
+});
+
+const isOffline = () => !navigator.onLine || window.location.hash.includes('/offline');
+
+const fetchChapters = async (book: Book): Promise<Chapter[]> => {
+  if (isOffline()) {
+    const downloaded = useDownloadStore.getState().books[getDownloadKey(useAuthStore.getState().serverUrl, book.id)];
+    return downloaded
+      ? Object.values(downloaded.chapters).map(d => d.chapter).sort((a, b) => a.chapterIndex - b.chapterIndex)
+      : [];
+  }
+  const res = await apiClient.get<Chapter[]>(`/api/books/${book.id}/chapters`);
+  return res.data;
+};
+
+// Volume after `bookId`, ordered the way the series page lists it
+const findNextSeriesBook = async (bookId: string): Promise<{ series: Series; book: Book } | null> => {
+  // The list carries each series' books, so only the one containing the book is fetched
+  const { data: list } = await apiClient.get<Series[]>('/api/v1/series');
+  const summary = list.find(s => s.books?.some(b => b.id === bookId));
+  if (!summary) return null;
+  const { data: series } = await apiClient.get<Series>(`/api/v1/series/${summary.id}`);
+  const books = series.books || [];
+  const index = books.findIndex(b => b.id === bookId);
+  return index !== -1 && books[index + 1] ? { series, book: books[index + 1] } : null;
+};
+
+export const usePlayQueueStore = create<PlayQueueState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      current: null,
+      continueSeries: false,
+      upNext: null,
+
+      enqueueBook: (book) => set(state => ({ items: [...state.items, createItem(book)] })),
+
+      enqueueBooks: (books) => set(state => ({ items: [...state.items, ...books.map(book => createItem(book))] })),
+
+      enqueueChapter: (book, chapter) => set(state => ({ items: [...state.items, createItem(book, chapter)] })),
+
+      remove: (id) => set(state => ({ items: state.items.filter(item => item.id !== id) })),
+
+      move: (fromIndex, toIndex) => set(state => {
+        if (toIndex < 0 || toIndex >= state.items.length) return state;
+        const items = [...state.items];
+        const [moved] = items.splice(fromIndex, 1);
+        items.splice(toIndex, 0, moved);
+        return { items };
+      }),
+
+      clear: () => set({ items: [] }),
+
+      setContinueSeries: (enabled) => set({ continueSeries: enabled }),
+
+      playItem: async (item) => {
+        try {
+          const chapters = await fetchChapters(item.book);
+          if (chapters.length === 0) return false;
+          const { playBook, playChapter } = usePlayerStore.getState();
+          const chapter = item.chapter && chapters.find(c => c.id === item.chapter!.id);
+          if (chapter) {
+            playChapter(item.book, chapters, chapter);
+          } else {
+            playBook(item.book, chapters);
+          }
+          set({ current: item });
+          return true;
+        } catch (err) {
+          console.error('播放队列项目失败', err);
+          return false;
+        }
+      },
+
+      advance: () => {
+        if (advancing) return advancing;
+        advancing = (async () => {
+          const finishedBook = usePlayerStore.getState().currentBook;
+
+          while (get().items.length > 0) {
+            const [next, ...rest] = get().items;
+            set({ items: rest });
+            if (await get().playItem(next)) return true;
+          }
+          set({ current: null });
+
+          if (!get().continueSeries || !finishedBook || isOffline()) return false;
+          // Already counting down to this book's next volume
+          if (get().upNext?.afterBookId === finishedBook.id) return true;
+          try {
+            const next = await findNextSeriesBook(finishedBook.id);
+            if (!next) return false;
+            clearUpNextTimer();
+            set({
+              upNext: {
+                ...next,
+                afterBookId: finishedBook.id,
+                startsAt: Date.now() + UP_NEXT_COUNTDOWN_SECONDS * 1000
+              }
+            });
+            upNextTimer = setTimeout(() => get().startUpNext(), UP_NEXT_COUNTDOWN_SECONDS * 1000);
+            return true;
+          } catch (err) {
+            console.error('获取系列下一本失败', err);
+            return false;
+          }
+        })().finally(() => {
+          advancing = null;
+        });
+        return advancing;
+      },
+
+      startUpNext: async () => {
+        clearUpNextTimer();
+        const { upNext } = get();
+        if (!upNext) return false;
+        set({ upNext: null });
+        // The user picked something else while counting down
+        if (usePlayerStore.getState().currentBook?.id !== upNext.afterBookId) return false;
+        return get().playItem(createItem(upNext.book));
+      },
+
+      cancelUpNext: () => {
+        clearUpNextTimer();
+        set({ upNext: null });
+      }
+    }),
+    {
+      name: 'play-queue',
+      storage: createJSONStorage(() => serverScopedStorage),
+      partialize: (state) => ({
+        items: state.items,
+        current: state.current,
+        continueSeries: state.continueSeries
+      })
+    }
+  )
+);
+
+/** Whether moving on from the current position leaves the current book (or queued chapter) */
+const isAtQueueBoundary = () => {
+  const { currentBook, currentChapter, chapters, currentTime } = usePlayerStore.getState();
+  if (!currentBook || !currentChapter) return false;
+
+  const subChapters = getSubChapters(currentChapter);
+  const subIndex = findSubChapterIndex(subChapters, currentTime);
+  if (subIndex !== -1 && subIndex < subChapters.length - 1) return false;
+
+  const { current } = usePlayQueueStore.getState();
+  if (current?.chapter && current.book.id === currentBook.id && current.chapter.id === currentChapter.id) {
+    return true;
+  }
+  const index = chapters.findIndex(c => c.id === currentChapter.id);
+  return index !== -1 && index === chapters.length - 1;
+};
+
+/** Next chapter, or the next queued item once the current book is done (unless the book repeats) */
+export const skipToNext = async () => {
+  if (advancing) return advancing;
+  if (isAtQueueBoundary()) {
+    const { currentBook, chapters, playChapter } = usePlayerStore.getState();
+    if (useRepeatStore.getState().repeatMode === 'book' && currentBook && chapters.length > 0) {
+      playChapter(currentBook, chapters, chapters[0], 0);
+      return true;
+    }
+    return usePlayQueueStore.getState().advance();
+  }
+  usePlayerStore.getState().nextChapter();
+  return true;
+};
@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { Book } from '../types';
+import { serverScopedStorage } from '../utils/storage';
+
+export interface PlaybackProfile {
+  speed?: number;
+  // Linear gain applied on top of the volume slider, used to even out quiet or loud recordings
+  gain?: number;
+  skipIntro?: number;
+  skipOutro?: number;
+}
+
+export type ProfileScope = 'book' | 'narrator';
+
+interface PlaybackProfileState {
+  bookProfiles: Record<string, PlaybackProfile>;
+  narratorProfiles: Record<string, PlaybackProfile>;
+
+  // Actions
+  saveProfile: (scope: ProfileScope, key: string, profile: PlaybackProfile) => void;
+  removeProfile: (scope: ProfileScope, key: string) => void;
+  rememberSpeed: (bookId: string, speed: number) => void;
+  resolveProfile: (book: Book) => PlaybackProfile;
+}
+
+const scopeKey = (scope: ProfileScope) => scope === 'book' ? 'bookProfiles' : 'narratorProfiles';
+
+/**
+ * Playback profiles kept on this device. A book's own profile takes precedence
+ * over its narrator's, skip values stored on the book itself win over both.
+ */
+export const usePlaybackProfileStore = create<PlaybackProfileState>()(
+  persist(
+    (set, get) => ({
+      bookProfiles: {},
+      narratorProfiles: {},
+
+      saveProfile: (scope, key, profile) => set(state => ({
+        [scopeKey(scope)]: {
+          ...state[scopeKey(scope)],
+          [key]: { ...state[scopeKey(scope)][key], ...profile }
+        }
+      })),
+
+      removeProfile: (scope, key) => set(state => {
+        const profiles = { ...state[scopeKey(scope)] };
+        delete profiles[key];
+        return { [scopeKey(scope)]: profiles };
+      }),
+
+      rememberSpeed: (bookId, speed) => get().saveProfile('book', bookId, { speed }),
+
+      resolveProfile: (book) => {
+        const { bookProfiles, narratorProfiles } = get();
+        const narratorProfile = book.narrator ? narratorProfiles[book.narrator] : undefined;
+        const bookProfile = bookProfiles[book.id];
+        return {
+          speed: bookProfile?.speed ?? narratorProfile?.speed,
+          gain: bookProfile?.gain ?? narratorProfile?.gain,
+          skipIntro: book.skipIntro || narratorProfile?.skipIntro,
+          skipOutro: book.skipOutro || narratorProfile?.skipOutro
+        };
+      }
+    }),
+    {
+      name: 'playback-profiles',
+      storage: createJSONStorage(() => serverScopedStorage)
+    }
+  )
+);
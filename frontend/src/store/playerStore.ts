@@ -1,7 +1,14 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { persist, createJSONStorage, type StateStorage } from 'zustand/middleware';
 import type { Book, Chapter } from '../types';
 import { isTooLight } from '../utils/color';
+import { useDownloadStore } from './downloadStore';
+import { usePlaybackProfileStore } from './playbackProfileStore';
+import { getSubChapters } from './subChapterStore';
+import { findSubChapterIndex } from '../utils/subChapters';
+import { getResumeRewind } from '../utils/resumeRewind';
+import { clampSpeed } from '../utils/playbackSpeed';
+import { getServerScopedKey, safeStorage, serverScopedStorage } from '../utils/storage';
 
 type ChapterProgressMeta = {
   progressUpdatedAt?: string;
@@ -29,13 +36,31 @@ interface PlayerState {
   duration: number;
   currentTime: number;
   playbackSpeed: number;
+  // This device's starting speed, overrides the account default when set
+  deviceSpeed: number | null;
+  preservesPitch: boolean;
+  // Multiplier on top of playbackSpeed while silent passages are sped through, not persisted
+  silenceRateBoost: number;
   volume: number;
+  // Gain from the current book's playback profile
+  volumeGain: number;
   themeColor: string;
   clientAutoDownload: boolean;
+  autoDownloadCount: number;
+  gaplessPlayback: boolean;
+  crossfadeSeconds: number;
+  showWaveform: boolean;
+  resumeRewind: boolean;
+  resumeRewindMin: number;
+  resumeRewindMax: number;
+  // When playback was last paused, sizes the rewind on resume
+  pausedAt: number | null;
   isExpanded: boolean;
   isCollapsed: boolean;
   isSeriesEditing: boolean;
   chapterProgress: Record<string, number>;
+  // Position the player should jump to within the current chapter, consumed by Player
+  seekRequest: number | null;
 
   // Actions
   playBook: (book: Book, chapters: Chapter[], startChapterId?: string) => void;
@@ -43,11 +68,22 @@ interface PlayerState {
   setCurrentTime: (time: number) => void;
   setDuration: (duration: number) => void;
   setPlaybackSpeed: (speed: number) => void;
+  applyDefaultSpeed: (speed: number) => void;
+  setDeviceSpeed: (speed: number | null) => void;
+  setPreservesPitch: (enabled: boolean) => void;
   setVolume: (volume: number) => void;
   setThemeColor: (color: string) => void;
   setClientAutoDownload: (enabled: boolean) => void;
+  setAutoDownloadCount: (count: number) => void;
+  setGaplessPlayback: (enabled: boolean) => void;
+  setCrossfadeSeconds: (seconds: number) => void;
+  setShowWaveform: (enabled: boolean) => void;
+  setSilenceRateBoost: (boost: number) => void;
+  setResumeRewind: (settings: { resumeRewind?: boolean; resumeRewindMin?: number; resumeRewindMax?: number }) => void;
   nextChapter: () => void;
   prevChapter: () => void;
+  seekTo: (time: number) => void;
+  clearSeekRequest: () => void;
   playChapter: (book: Book, chapters: Chapter[], chapter: Chapter, resumePosition?: number) => void;
   setIsPlaying: (isPlaying: boolean) => void;
   setIsExpanded: (isExpanded: boolean) => void;
@@ -55,6 +91,65 @@ interface PlayerState {
   setIsSeriesEditing: (isSeriesEditing: boolean) => void;
 }
 
+// Pressing previous later than this into an embedded chapter restarts it
+const SUB_CHAPTER_RESTART_SECONDS = 3;
+
+/** Speed a book starts at: its own (or its narrator's) profile, then this device's default */
+export const getBookSpeed = (book: Book) => {
+  const { deviceSpeed, playbackSpeed } = usePlayerStore.getState();
+  return usePlaybackProfileStore.getState().resolveProfile(book).speed || deviceSpeed || playbackSpeed;
+};
+
+// Apply the book's (or its narrator's) playback profile when it starts playing
+const getProfileState = (book: Book): Partial<PlayerState> => {
+  const profile = usePlaybackProfileStore.getState().resolveProfile(book);
+  return {
+    currentBook: { ...book, skipIntro: profile.skipIntro ?? 0, skipOutro: profile.skipOutro ?? 0 },
+    volumeGain: profile.gain ?? 1,
+    playbackSpeed: getBookSpeed(book)
+  };
+};
+
+// Progress belongs to the server it was made on, the other persisted fields are device settings
+const SERVER_SCOPED_FIELDS = ['chapterProgress', 'pausedAt'];
+const serverPartKey = (name: string) => `${name}:server`;
+
+const parseStored = (value: string | null): { state?: Record<string, unknown> } | null => {
+  try {
+    return value ? JSON.parse(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+const playerStorage: StateStorage = {
+  getItem: (name) => {
+    const device = parseStored(safeStorage.getItem(name));
+    const server = parseStored(serverScopedStorage.getItem(serverPartKey(name)));
+    if (!device && !server) return null;
+    const state = { ...device?.state };
+    // Before scoping everything lived in the device entry, it was the default server's
+    const isLegacyDefault = !server && getServerScopedKey(name) === name;
+    if (!isLegacyDefault) SERVER_SCOPED_FIELDS.forEach(field => delete state[field]);
+    return JSON.stringify({ ...device, ...server, state: { ...state, ...server?.state } });
+  },
+  setItem: (name, value) => {
+    const stored = parseStored(value);
+    if (!stored?.state) return;
+    const device: Record<string, unknown> = {};
+    const server: Record<string, unknown> = {};
+    Object.entries(stored.state).forEach(([field, fieldValue]) => {
+      (SERVER_SCOPED_FIELDS.includes(field) ? server : device)[field] = fieldValue;
+    });
+    safeStorage.setItem(name, JSON.stringify({ ...stored, state: device }));
+    serverScopedStorage.setItem(serverPartKey(name), JSON.stringify({ ...stored, state: server }));
+  },
+  removeItem: (name) => {
+    safeStorage.removeItem(name);
+    serverScopedStorage.removeItem(serverPartKey(name));
+  }
+};
+
 export const usePlayerStore = create<PlayerState>()(
   persist(
     (set, get) => ({
@@ -65,19 +160,51 @@ export const usePlayerStore = create<PlayerState>()(
       duration: 0,
       currentTime: 0,
       playbackSpeed: 1.0,
+      deviceSpeed: null,
+      preservesPitch: true,
+      silenceRateBoost: 1,
       volume: 1.0,
+      volumeGain: 1.0,
       themeColor: '#F2EDE4',
       clientAutoDownload: false,
+      autoDownloadCount: 3,
+      gaplessPlayback: true,
+      crossfadeSeconds: 0,
+      showWaveform: false,
+      resumeRewind: true,
+      resumeRewindMin: 2,
+      resumeRewindMax: 30,
+      pausedAt: null,
       isExpanded: false,
       isCollapsed: false,
       isSeriesEditing: false,
       chapterProgress: {},
+      seekRequest: null,
 
-      setIsPlaying: (isPlaying) => set({ isPlaying }),
+      // Every pause and resume goes through here, whether from the UI, the media
+      // keys, the sleep timer or the audio element itself
+      setIsPlaying: (playing) => {
+        const { isPlaying, pausedAt, currentTime } = get();
+        // Several sources may report the same pause or resume, only the first counts
+        if (playing === isPlaying) return;
+        if (!playing) {
+          set({ isPlaying: false, pausedAt: Date.now() });
+          return;
+        }
+        const rewind = pausedAt ? getResumeRewind(Date.now() - pausedAt, get()) : 0;
+        set({ isPlaying: true, pausedAt: null });
+        if (rewind > 0) get().seekTo(Math.max(0, currentTime - rewind));
+      },
       setIsExpanded: (isExpanded) => set({ isExpanded }),
       setIsCollapsed: (isCollapsed) => set({ isCollapsed }),
       setIsSeriesEditing: (isSeriesEditing) => set({ isSeriesEditing }),
       setClientAutoDownload: (enabled) => set({ clientAutoDownload: enabled }),
+      setAutoDownloadCount: (count) => set({ autoDownloadCount: count }),
+      setGaplessPlayback: (enabled) => set({ gaplessPlayback: enabled }),
+      setCrossfadeSeconds: (seconds) => set({ crossfadeSeconds: seconds }),
+      setShowWaveform: (enabled) => set({ showWaveform: enabled }),
+      setSilenceRateBoost: (boost) => set({ silenceRateBoost: boost }),
+      setResumeRewind: (settings) => set(settings),
 
       playBook: (book, chapters, startChapterId) => {
         const isOffline = typeof window !== 'undefined' && (!navigator.onLine || window.location.hash.includes('/offline'));
@@ -104,13 +231,20 @@ export const usePlayerStore = create<PlayerState>()(
         if (!isOffline && resume > 0 && chapter.duration && chapter.duration > 0 && resume / chapter.duration >= 0.95) {
           resume = 0;
         }
+        // Step back further the longer the book has been left alone
+        const updatedAt = getProgressUpdatedAt(chapter);
+        if (resume > 0 && updatedAt) {
+          resume = Math.max(0, resume - getResumeRewind(Date.now() - Date.parse(updatedAt), get()));
+        }
 
         const newState: Partial<PlayerState> = {
           currentBook: book,
           chapters,
           currentChapter: chapter,
           isPlaying: true,
-          currentTime: resume
+          pausedAt: null,
+          currentTime: resume,
+          ...getProfileState(book)
         };
 
         if (book.themeColor && !isTooLight(book.themeColor)) {
@@ -122,7 +256,7 @@ export const usePlayerStore = create<PlayerState>()(
         set(newState);
       },
 
-      togglePlay: () => set((state) => ({ isPlaying: !state.isPlaying })),
+      togglePlay: () => get().setIsPlaying(!get().isPlaying),
 
       setCurrentTime: (time) => set((state) => {
         const isOffline = typeof window !== 'undefined' && (!navigator.onLine || window.location.hash.includes('/offline'));
@@ -135,16 +269,39 @@ export const usePlayerStore = create<PlayerState>()(
 
       setDuration: (duration) => set({ duration }),
 
-      setPlaybackSpeed: (speed) => set({ playbackSpeed: speed }),
+      setPlaybackSpeed: (value) => {
+        const speed = clampSpeed(value);
+        const { currentBook } = get();
+        if (currentBook) usePlaybackProfileStore.getState().rememberSpeed(currentBook.id, speed);
+        set({ playbackSpeed: speed });
+      },
+
+      // A default (account or device) never overrides or becomes a book's own speed
+      applyDefaultSpeed: (value) => {
+        const { currentBook } = get();
+        if (currentBook && usePlaybackProfileStore.getState().resolveProfile(currentBook).speed) return;
+        set({ playbackSpeed: clampSpeed(value) });
+      },
+
+      setDeviceSpeed: (speed) => set({ deviceSpeed: speed === null ? null : clampSpeed(speed) }),
+      setPreservesPitch: (enabled) => set({ preservesPitch: enabled }),
 
       setVolume: (volume) => set({ volume }),
 
       setThemeColor: (color) => set({ themeColor: color }),
 
       nextChapter: () => {
-        const { currentChapter, chapters, chapterProgress, currentBook } = get();
+        const { currentChapter, chapters, chapterProgress, currentBook, currentTime } = get();
         if (!currentChapter || !currentBook) return;
 
+        // Step through embedded chapters before moving to the next file
+        const subChapters = getSubChapters(currentChapter);
+        const subIndex = findSubChapterIndex(subChapters, currentTime);
+        if (subIndex !== -1 && subIndex < subChapters.length - 1) {
+          get().seekTo(subChapters[subIndex + 1].start);
+          return;
+        }
+
         if (chapters.length === 0 || !chapters.some(c => c.id === currentChapter.id)) {
           return;
         }
@@ -155,12 +312,36 @@ export const usePlayerStore = create<PlayerState>()(
           const isOffline = typeof window !== 'undefined' && (!navigator.onLine || window.location.hash.includes('/offline'));
           const resume = isOffline ? (chapterProgress[next.id] ?? getProgressPosition(next)) : getProgressPosition(next);
           get().playChapter(currentBook, chapters, next, resume);
+
+          // Keep the next few chapters available offline while listening
+          const { clientAutoDownload, autoDownloadCount } = get();
+          if (clientAutoDownload && !isOffline) {
+            useDownloadStore.getState()
+              .downloadNextChapters(currentBook, chapters, next.id, autoDownloadCount)
+              .catch(err => console.error('自动下载后续章节失败', err));
+          }
         }
       },
 
       prevChapter: () => {
-        const { currentChapter, chapters, chapterProgress, currentBook } = get();
+        const { currentChapter, chapters, chapterProgress, currentBook, currentTime } = get();
         if (!currentChapter || !currentBook) return;
+
+        // Back to the start of the embedded chapter, or the one before it when already near the start
+        const subChapters = getSubChapters(currentChapter);
+        const subIndex = findSubChapterIndex(subChapters, currentTime);
+        if (subIndex !== -1) {
+          const sub = subChapters[subIndex];
+          if (currentTime - sub.start > SUB_CHAPTER_RESTART_SECONDS) {
+            get().seekTo(sub.start);
+            return;
+          }
+          if (subIndex > 0) {
+            get().seekTo(subChapters[subIndex - 1].start);
+            return;
+          }
+        }
+
         const index = chapters.findIndex(c => c.id === currentChapter.id);
         if (index > 0) {
           const prev = chapters[index - 1];
@@ -170,6 +351,9 @@ export const usePlayerStore = create<PlayerState>()(
         }
       },
 
+      seekTo: (time) => set({ seekRequest: time }),
+      clearSeekRequest: () => set({ seekRequest: null }),
+
       playChapter: (book, chapters, chapter, resumePosition) => {
         const isOffline = typeof window !== 'undefined' && (!navigator.onLine || window.location.hash.includes('/offline'));
         const { chapterProgress } = get();
@@ -189,7 +373,9 @@ export const usePlayerStore = create<PlayerState>()(
           chapters,
           currentChapter: chapter,
           isPlaying: true,
-          currentTime: resume
+          pausedAt: null,
+          currentTime: resume,
+          ...getProfileState(book)
         };
 
         if (book.themeColor && !isTooLight(book.themeColor)) {
@@ -203,7 +389,22 @@ export const usePlayerStore = create<PlayerState>()(
     }),
     {
       name: 'offline-progress-storage',
-      partialize: (state) => ({ chapterProgress: state.chapterProgress })
+      storage: createJSONStorage(() => playerStorage),
+      partialize: (state) => ({
+        chapterProgress: state.chapterProgress,
+        clientAutoDownload: state.clientAutoDownload,
+        autoDownloadCount: state.autoDownloadCount,
+        gaplessPlayback: state.gaplessPlayback,
+        crossfadeSeconds: state.crossfadeSeconds,
+        showWaveform: state.showWaveform,
+        resumeRewind: state.resumeRewind,
+        resumeRewindMin: state.resumeRewindMin,
+        resumeRewindMax: state.resumeRewindMax,
+        deviceSpeed: state.deviceSpeed,
+        preservesPitch: state.preservesPitch,
+        // A pause carries over a restart, so resuming next launch still rewinds
+        pausedAt: state.pausedAt
+      })
     }
   )
 );
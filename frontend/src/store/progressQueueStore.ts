@@ -0,0 +1,109 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import apiClient from '../api/client';
+import { parseServerDate } from '../utils/date';
+import { serverScopedStorage } from '../utils/storage';
+
+export interface QueuedProgress {
+  bookId: string;
+  chapterId: string;
+  position: number;
+  recordedAt: string;
+}
+
+type SendViaWs = (bookId: string, chapterId: string, position: number) => boolean;
+
+interface ProgressQueueState {
+  queue: QueuedProgress[];
+
+  // Actions
+  enqueue: (bookId: string, chapterId: string, position: number) => void;
+  flush: (sendViaWs?: SendViaWs) => Promise<void>;
+}
+
+type ErrorWithResponse = { response?: { status?: number } };
+
+const entryKey = (entry: QueuedProgress) => `${entry.chapterId}@${entry.recordedAt}`;
+
+let isFlushing = false;
+
+/**
+ * Durable outbound queue for progress recorded while offline.
+ * Only the latest position per chapter is kept; it is replayed to the server
+ * once we are back online unless the server has seen newer listening since.
+ */
+export const useProgressQueueStore = create<ProgressQueueState>()(
+  persist(
+    (set, get) => ({
+      queue: [],
+
+      enqueue: (bookId, chapterId, position) => set(state => ({
+        queue: [
+          ...state.queue.filter(e => e.chapterId !== chapterId),
+          { bookId, chapterId, position: Math.floor(position), recordedAt: new Date().toISOString() }
+        ]
+      })),
+
+      flush: async (sendViaWs) => {
+        if (isFlushing || !navigator.onLine || get().queue.length === 0) return;
+        isFlushing = true;
+
+        const pending = [...get().queue].sort((a, b) => Date.parse(a.recordedAt) - Date.parse(b.recordedAt));
+        const byBook = new Map<string, QueuedProgress[]>();
+        for (const entry of pending) {
+          byBook.set(entry.bookId, [...(byBook.get(entry.bookId) || []), entry]);
+        }
+
+        const done = new Set<string>();
+        try {
+          for (const [bookId, entries] of byBook) {
+            let serverUpdatedAt = 0;
+            try {
+              const res = await apiClient.get(`/api/progress/${bookId}`);
+              serverUpdatedAt = parseServerDate(res.data?.updatedAt);
+            } catch (err) {
+              // No response at all: still unreachable, keep everything for next time
+              if (!(err as ErrorWithResponse).response) return;
+            }
+
+            for (const entry of entries) {
+              // Someone listened on another device after this was recorded, server wins
+              if (serverUpdatedAt > Date.parse(entry.recordedAt)) {
+                done.add(entryKey(entry));
+                continue;
+              }
+
+              try {
+                await apiClient.post('/api/progress', {
+                  bookId: entry.bookId,
+                  chapterId: entry.chapterId,
+                  position: entry.position,
+                  updatedAt: entry.recordedAt
+                });
+                done.add(entryKey(entry));
+              } catch (err) {
+                const status = (err as ErrorWithResponse).response?.status;
+                if (!status && sendViaWs?.(entry.bookId, entry.chapterId, entry.position)) {
+                  done.add(entryKey(entry));
+                } else if (status && status >= 400 && status < 500) {
+                  // Rejected (e.g. chapter deleted), retrying will not help
+                  console.warn('离线进度被服务器拒绝，已丢弃', entry, status);
+                  done.add(entryKey(entry));
+                }
+              }
+            }
+          }
+        } finally {
+          // Entries recorded while flushing are kept
+          set(state => ({ queue: state.queue.filter(e => !done.has(entryKey(e))) }));
+          isFlushing = false;
+        }
+      }
+    }),
+    {
+      name: 'offline-progress-queue',
+      storage: createJSONStorage(() => serverScopedStorage),
+      partialize: (state) => ({ queue: state.queue })
+    }
+  )
+);
@@ -0,0 +1,85 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export type RepeatMode = 'off' | 'chapter' | 'book';
+
+export interface AbLoop {
+  chapterId: string;
+  start: number;
+  // Loops to the end of the chapter until B is set
+  end: number | null;
+}
+
+interface RepeatState {
+  repeatMode: RepeatMode;
+  abLoop: AbLoop | null;
+  sentenceRepeat: boolean;
+  sentenceRepeatCount: number;
+
+  // Actions
+  setRepeatMode: (mode: RepeatMode) => void;
+  cycleRepeatMode: () => void;
+  markLoopPoint: (chapterId: string, time: number) => void;
+  clearLoop: () => void;
+  setSentenceRepeat: (enabled: boolean) => void;
+  setSentenceRepeatCount: (count: number) => void;
+}
+
+const NEXT_MODE: Record<RepeatMode, RepeatMode> = {
+  off: 'chapter',
+  chapter: 'book',
+  book: 'off'
+};
+
+// A segment shorter than this is almost certainly a double tap
+const MIN_LOOP_SECONDS = 0.5;
+
+/** The A/B loop when it belongs to `chapterId` */
+export const getActiveLoop = (chapterId: string | undefined) => {
+  const { abLoop } = useRepeatStore.getState();
+  return abLoop && abLoop.chapterId === chapterId ? abLoop : null;
+};
+
+export const useRepeatStore = create<RepeatState>()(
+  persist(
+    (set, get) => ({
+      repeatMode: 'off',
+      abLoop: null,
+      sentenceRepeat: false,
+      sentenceRepeatCount: 3,
+
+      setRepeatMode: (mode) => set({ repeatMode: mode }),
+      cycleRepeatMode: () => set(state => ({ repeatMode: NEXT_MODE[state.repeatMode] })),
+
+      // First call sets A, the second sets B, a third starts over from a new A
+      markLoopPoint: (chapterId, time) => {
+        const { abLoop } = get();
+        if (!abLoop || abLoop.chapterId !== chapterId || abLoop.end !== null) {
+          set({ abLoop: { chapterId, start: time, end: null } });
+          return;
+        }
+        if (Math.abs(time - abLoop.start) < MIN_LOOP_SECONDS) return;
+        set({
+          abLoop: {
+            chapterId,
+            start: Math.min(abLoop.start, time),
+            end: Math.max(abLoop.start, time)
+          }
+        });
+      },
+
+      clearLoop: () => set({ abLoop: null }),
+
+      setSentenceRepeat: (enabled) => set({ sentenceRepeat: enabled }),
+      setSentenceRepeatCount: (count) => set({ sentenceRepeatCount: count })
+    }),
+    {
+      name: 'repeat-mode',
+      partialize: (state) => ({
+        repeatMode: state.repeatMode,
+        sentenceRepeat: state.sentenceRepeat,
+        sentenceRepeatCount: state.sentenceRepeatCount
+      })
+    }
+  )
+);
@@ -0,0 +1,137 @@
+import { create } from 'zustand';
+import type { User } from '../types';
+import {
+  ACTIVE_SERVER_PROFILE_KEY,
+  DEFAULT_SERVER_PROFILE_ID,
+  SERVER_PROFILES_KEY,
+  clearServerScopedData,
+  safeStorage
+} from '../utils/storage';
+import { clearCredential, migrateLegacyCredentials } from '../utils/credentials';
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  // The flat session keys (server URLs, resolved URL, tokens, user) while inactive
+  session: Record<string, string>;
+}
+
+interface ServerProfileState {
+  profiles: ServerProfile[];
+  activeId: string;
+
+  // Actions
+  addProfile: (name: string) => void;
+  renameProfile: (id: string, name: string) => void;
+  removeProfile: (id: string) => void;
+  switchTo: (id: string) => void;
+}
+
+// What authStore and apiClient read for the active server; saved logins and refresh tokens live in the keychain
+const SESSION_KEYS = ['server_url', 'server_endpoints', 'active_url', 'auth_token', 'user'];
+
+const readSession = () => {
+  const session: Record<string, string> = {};
+  for (const key of SESSION_KEYS) {
+    const value = safeStorage.getItem(key);
+    if (value !== null) session[key] = value;
+  }
+  return session;
+};
+
+const writeSession = (session: Record<string, string>) => {
+  for (const key of SESSION_KEYS) {
+    if (session[key] !== undefined) {
+      safeStorage.setItem(key, session[key]);
+    } else {
+      safeStorage.removeItem(key);
+    }
+  }
+};
+
+const loadProfiles = (): ServerProfile[] => {
+  try {
+    const parsed = JSON.parse(safeStorage.getItem(SERVER_PROFILES_KEY) || '[]');
+    if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+  } catch {
+    // fall through to the default profile
+  }
+  return [{ id: DEFAULT_SERVER_PROFILE_ID, name: '', session: {} }];
+};
+
+const saveProfiles = (profiles: ServerProfile[]) => {
+  safeStorage.setItem(SERVER_PROFILES_KEY, JSON.stringify(profiles));
+};
+
+/** Server URL and user of a profile; the active one lives in the flat keys */
+export const getProfileSummary = (profile: ServerProfile, isActive: boolean) => {
+  const session = isActive ? readSession() : profile.session;
+  let user: User | null = null;
+  try {
+    user = JSON.parse(session.user || 'null');
+  } catch {
+    user = null;
+  }
+  const serverUrl = session.server_url || '';
+  let host = serverUrl;
+  try {
+    host = serverUrl ? new URL(serverUrl).host : '';
+  } catch {
+    // keep the raw input
+  }
+  return { serverUrl, host, user, name: profile.name || host || '默认服务器' };
+};
+
+// Everything in memory (stores, websocket, player) belongs to the old server
+const reloadApp = (path: string) => {
+  window.location.hash = `#${path}`;
+  window.location.reload();
+};
+
+// Strip plaintext logins from the stored sessions before they are loaded
+migrateLegacyCredentials();
+
+export const useServerProfileStore = create<ServerProfileState>((set, get) => ({
+  profiles: loadProfiles(),
+  activeId: safeStorage.getItem(ACTIVE_SERVER_PROFILE_KEY) || DEFAULT_SERVER_PROFILE_ID,
+
+  addProfile: (name) => {
+    const { profiles, activeId } = get();
+    const profile: ServerProfile = { id: `server-${Date.now().toString(36)}`, name, session: {} };
+    const next = [...profiles.map(p => (p.id === activeId ? { ...p, session: readSession() } : p)), profile];
+    saveProfiles(next);
+    writeSession({});
+    safeStorage.setItem(ACTIVE_SERVER_PROFILE_KEY, profile.id);
+    set({ profiles: next, activeId: profile.id });
+    reloadApp('/login');
+  },
+
+  renameProfile: (id, name) => {
+    const next = get().profiles.map(p => (p.id === id ? { ...p, name } : p));
+    saveProfiles(next);
+    set({ profiles: next });
+  },
+
+  removeProfile: (id) => {
+    if (id === get().activeId) return;
+    const next = get().profiles.filter(p => p.id !== id);
+    saveProfiles(next);
+    clearServerScopedData(id);
+    clearCredential(id);
+    set({ profiles: next });
+  },
+
+  // Park the current session in its profile and bring the other one back, both stay signed in
+  switchTo: (id) => {
+    const { profiles, activeId } = get();
+    const target = profiles.find(p => p.id === id);
+    if (!target || id === activeId) return;
+
+    const next = profiles.map(p => (p.id === activeId ? { ...p, session: readSession() } : p));
+    saveProfiles(next);
+    writeSession(target.session);
+    safeStorage.setItem(ACTIVE_SERVER_PROFILE_KEY, id);
+    set({ profiles: next, activeId: id });
+    reloadApp(target.session.auth_token ? '/' : '/login');
+  }
+}));
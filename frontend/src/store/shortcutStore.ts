@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { safeStorage } from '../utils/storage';
+import { DEFAULT_SHORTCUTS } from '../utils/shortcuts';
+import type { ShortcutAction } from '../utils/shortcuts';
+
+interface ShortcutState {
+  bindings: Record<ShortcutAction, string>;
+  globalEnabled: boolean;
+
+  // Actions
+  setBinding: (action: ShortcutAction, shortcut: string) => void;
+  resetBindings: () => void;
+  setGlobalEnabled: (enabled: boolean) => void;
+}
+
+export const useShortcutStore = create<ShortcutState>()(
+  persist(
+    (set) => ({
+      bindings: DEFAULT_SHORTCUTS,
+      globalEnabled: false,
+
+      // A key can only drive one action, so steal it from any previous owner
+      setBinding: (action, shortcut) => set(state => {
+        const bindings = { ...state.bindings };
+        for (const key of Object.keys(bindings) as ShortcutAction[]) {
+          if (key !== action && bindings[key] === shortcut) bindings[key] = '';
+        }
+        bindings[action] = shortcut;
+        return { bindings };
+      }),
+
+      resetBindings: () => set({ bindings: DEFAULT_SHORTCUTS }),
+
+      setGlobalEnabled: (enabled) => set({ globalEnabled: enabled })
+    }),
+    {
+      name: 'keyboard-shortcuts',
+      storage: createJSONStorage(() => safeStorage),
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<ShortcutState> | undefined;
+        return {
+          ...current,
+          ...saved,
+          bindings: { ...DEFAULT_SHORTCUTS, ...saved?.bindings }
+        };
+      }
+    }
+  )
+);
@@ -0,0 +1,125 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { usePlayerStore } from './playerStore';
+
+export type SleepTimerMode = 'time' | 'chapters';
+
+interface SleepTimerState {
+  mode: SleepTimerMode | null;
+  // Time mode: seconds armed and seconds left (frozen while paused)
+  duration: number;
+  remaining: number;
+  endTime: number | null;
+  // Chapters mode: chapters left to finish, 1 = stop at end of current chapter
+  chaptersLeft: number;
+  lastConsumedChapterId: string | null;
+  autoStartSuppressed: boolean;
+
+  // Preferences
+  defaultMinutes: number;
+  fadeSeconds: number;
+  extendOnActivity: boolean;
+
+  // Actions
+  startTimer: (minutes: number) => void;
+  startChapterTimer: (chapters: number) => void;
+  cancel: (byUser?: boolean) => void;
+  extend: () => void;
+  pause: () => void;
+  resume: () => void;
+  tick: () => number;
+  consumeChapter: (chapterId: string) => boolean;
+  setDefaultMinutes: (minutes: number) => void;
+  setFadeSeconds: (seconds: number) => void;
+  setExtendOnActivity: (enabled: boolean) => void;
+}
+
+const idle = {
+  mode: null,
+  duration: 0,
+  remaining: 0,
+  endTime: null,
+  chaptersLeft: 0,
+  lastConsumedChapterId: null
+};
+
+export const useSleepTimerStore = create<SleepTimerState>()(
+  persist(
+    (set, get) => ({
+      ...idle,
+      autoStartSuppressed: false,
+      defaultMinutes: 0,
+      fadeSeconds: 30,
+      extendOnActivity: true,
+
+      startTimer: (minutes) => {
+        const duration = Math.round(minutes * 60);
+        // Only start counting down while something is playing
+        const endTime = usePlayerStore.getState().isPlaying ? Date.now() + duration * 1000 : null;
+        set({ ...idle, mode: 'time', duration, remaining: duration, endTime });
+      },
+
+      startChapterTimer: (chapters) => set({ ...idle, mode: 'chapters', chaptersLeft: Math.max(1, chapters) }),
+
+      cancel: (byUser = false) => set(state => ({
+        ...idle,
+        // Manually cancelled: don't re-arm the default timer for this session
+        autoStartSuppressed: state.autoStartSuppressed || byUser
+      })),
+
+      extend: () => {
+        const { mode, duration } = get();
+        if (mode === 'time') {
+          const endTime = usePlayerStore.getState().isPlaying ? Date.now() + duration * 1000 : null;
+          set({ remaining: duration, endTime });
+        } else if (mode === 'chapters') {
+          set(state => ({ chaptersLeft: state.chaptersLeft + 1 }));
+        }
+      },
+
+      pause: () => {
+        const { mode, endTime } = get();
+        if (mode !== 'time' || !endTime) return;
+        set({ remaining: Math.max(0, Math.ceil((endTime - Date.now()) / 1000)), endTime: null });
+      },
+
+      resume: () => {
+        const { mode, endTime, remaining } = get();
+        if (mode !== 'time' || endTime) return;
+        set({ endTime: Date.now() + remaining * 1000 });
+      },
+
+      tick: () => {
+        const { mode, endTime, remaining } = get();
+        if (mode !== 'time' || !endTime) return remaining;
+        const left = Math.max(0, Math.ceil((endTime - Date.now()) / 1000));
+        if (left !== remaining) set({ remaining: left });
+        return left;
+      },
+
+      // Called once per finished chapter; true when playback should stop
+      consumeChapter: (chapterId) => {
+        const { mode, chaptersLeft, lastConsumedChapterId } = get();
+        if (mode !== 'chapters' || lastConsumedChapterId === chapterId) return false;
+        if (chaptersLeft <= 1) {
+          set({ ...idle });
+          return true;
+        }
+        set({ chaptersLeft: chaptersLeft - 1, lastConsumedChapterId: chapterId });
+        return false;
+      },
+
+      setDefaultMinutes: (minutes) => set({ defaultMinutes: minutes }),
+      setFadeSeconds: (seconds) => set({ fadeSeconds: seconds }),
+      setExtendOnActivity: (enabled) => set({ extendOnActivity: enabled })
+    }),
+    {
+      name: 'sleep-timer-settings',
+      partialize: (state) => ({
+        defaultMinutes: state.defaultMinutes,
+        fadeSeconds: state.fadeSeconds,
+        extendOnActivity: state.extendOnActivity
+      })
+    }
+  )
+);
@@ -0,0 +1,66 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { Chapter, SubChapter } from '../types';
+import { useDownloadStore } from './downloadStore';
+import { getChapterStreamUrl } from '../utils/download';
+import { isFlacPath, isMp4Path, parseCueSheet, readFlacSubChapters, readMp4SubChapters } from '../utils/subChapters';
+import { serverScopedStorage } from '../utils/storage';
+
+interface SubChapterState {
+  // Parsed from CUE sheets and the files on this device, an empty list means the file has none
+  subChapters: Record<string, SubChapter[]>;
+  loading: Record<string, boolean>;
+
+  // Actions
+  loadSubChapters: (chapter: Chapter) => Promise<void>;
+}
+
+/** Sub-chapters of a chapter: listed by the server, from its CUE sheet, or read from the MP4/M4B/FLAC file itself */
+export const getSubChapters = (chapter: Chapter): SubChapter[] => {
+  if (chapter.subChapters && chapter.subChapters.length > 0) return chapter.subChapters;
+  return useSubChapterStore.getState().subChapters[chapter.id] || [];
+};
+
+export const useSubChapterStore = create<SubChapterState>()(
+  persist(
+    (set, get) => ({
+      subChapters: {},
+      loading: {},
+
+      loadSubChapters: async (chapter) => {
+        if (chapter.subChapters?.length) return;
+        if (!chapter.cueSheet && !isMp4Path(chapter.path) && !isFlacPath(chapter.path)) return;
+        const { subChapters, loading } = get();
+        if (subChapters[chapter.id] || loading[chapter.id]) return;
+
+        set(state => ({ loading: { ...state.loading, [chapter.id]: true } }));
+        try {
+          let parsed: SubChapter[];
+          if (chapter.cueSheet) {
+            parsed = parseCueSheet(chapter.cueSheet, chapter.path, chapter.duration);
+          } else {
+            // Prefer the downloaded copy, it saves the range requests
+            const url = useDownloadStore.getState().getLocalSource(chapter.id) || getChapterStreamUrl(chapter.id);
+            parsed = isMp4Path(chapter.path)
+              ? await readMp4SubChapters(url, chapter.duration)
+              : await readFlacSubChapters(url, chapter.path, chapter.duration);
+          }
+          set(state => ({ subChapters: { ...state.subChapters, [chapter.id]: parsed } }));
+        } catch (err) {
+          console.warn('读取内嵌章节失败', err);
+        } finally {
+          set(state => {
+            const next = { ...state.loading };
+            delete next[chapter.id];
+            return { loading: next };
+          });
+        }
+      }
+    }),
+    {
+      name: 'sub-chapters',
+      storage: createJSONStorage(() => serverScopedStorage),
+      partialize: (state) => ({ subChapters: state.subChapters })
+    }
+  )
+);
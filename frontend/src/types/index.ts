@@ -69,6 +69,16 @@ export interface Chapter {
   isExtra?: number;
   progressPosition?: number;
   progressUpdatedAt?: string;
+  // Chapters embedded in the file when the server lists them, offsets in seconds
+  subChapters?: SubChapter[];
+  // Text of the CUE sheet that describes this file, when the server supplies one
+  cueSheet?: string;
+}
+
+export interface SubChapter {
+  title: string;
+  start: number;
+  end: number;
 }
 
 export interface Progress {
@@ -83,6 +93,17 @@ export interface Progress {
   chapterDuration?: number;
 }
 
+export interface Bookmark {
+  id: string;
+  bookId: string;
+  chapterId: string;
+  position: number;
+  title: string;
+  note?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
 export interface Stats {
   totalBooks: number;
   totalChapters: number;
@@ -245,3 +266,97 @@ export interface ScrapeDiff {
   scraped: BookMetadata;
   chapter_changes: ChapterChange[];
 }
+
+export interface DownloadProgress {
+  taskId: string | null;
+  fileName: string;
+  status: 'downloading' | 'completed' | 'paused' | 'failed';
+  received?: number;
+  total?: number;
+  progress?: number;
+  error?: string;
+}
+
+export interface DownloadResult {
+  success: boolean;
+  fileName?: string;
+  size?: number;
+  cached?: boolean;
+  aborted?: boolean;
+  error?: string;
+}
+
+export interface CachedFile {
+  fileName: string;
+  size: number;
+  mtime: number;
+}
+
+export interface EndpointProbe {
+  url: string;
+  resolvedUrl: string; // After redirects
+  ok: boolean;
+  latency: number | null; // ms
+  status?: number;
+  error?: string;
+}
+
+export interface TrustedCertificate {
+  host: string;
+  fingerprint: string; // SHA-256, colon separated hex
+  subject: string;
+  issuer: string;
+  pinnedAt: number;
+}
+
+/** Fields of a keychain login to set, null removes one */
+export interface CredentialUpdate {
+  username?: string | null;
+  password?: string | null;
+  refreshToken?: string | null;
+  // Server the login belongs to, the main process only renews sessions with its origin
+  serverUrl?: string | null;
+}
+
+/** A keychain login as the renderer sees it, the secrets stay in the main process */
+export interface SavedLogin {
+  username: string;
+  canRenew: boolean;
+}
+
+export interface RenewedSession {
+  token?: string;
+  user?: User | null;
+  rejected?: boolean;
+  error?: string;
+}
+
+/** Bridge exposed by electron/preload.js */
+export interface ElectronAPI {
+  isElectron: true;
+  resolveRedirect: (url: string) => Promise<string>;
+  probeEndpoints: (endpoints: string[], timeoutMs?: number) => Promise<EndpointProbe[]>;
+  listTrustedCertificates: () => Promise<TrustedCertificate[]>;
+  removeTrustedCertificate: (host: string) => Promise<{ success: boolean }>;
+  clearCache: () => Promise<{ success: boolean; error?: string }>;
+  getCacheSize: () => Promise<number>;
+  setCacheServer: (serverUrl: string) => Promise<string>;
+  setServerOrigins: (urls: string[]) => Promise<string[]>;
+  credentialsAvailable: () => Promise<boolean>;
+  saveCredential: (account: string, credential: CredentialUpdate) => Promise<{ success: boolean; error?: string }>;
+  loadCredential: (account: string) => Promise<SavedLogin | null>;
+  deleteCredential: (account: string) => Promise<{ success: boolean }>;
+  renewSession: (account: string, baseUrl: string) => Promise<RenewedSession>;
+  downloadChapter: (url: string, fileName: string, taskId: string) => Promise<DownloadResult>;
+  cancelDownload: (taskId: string) => Promise<{ success: boolean }>;
+  downloadCover: (url: string, bookId: string, force?: boolean) => Promise<{ success: boolean; path?: string; error?: string }>;
+  checkCached: (fileNames: string[]) => Promise<Record<string, boolean>>;
+  removeCachedFile: (fileName: string) => Promise<{ success: boolean }>;
+  listCachedFiles: () => Promise<CachedFile[]>;
+  onDownloadProgress: (callback: (data: DownloadProgress) => void) => () => void;
+  removeDownloadProgressListeners: () => void;
+  openExternal: (url: string) => Promise<void>;
+  getVersion: () => Promise<string>;
+  setGlobalShortcuts: (shortcuts: Record<string, string>) => Promise<{ success: boolean; failed: string[] }>;
+  onGlobalShortcut: (callback: (action: string) => void) => () => void;
+}
@@ -0,0 +1,144 @@
+/**
+ * Web Audio routing for media elements
+ *
+ * source → high-pass → low shelf → presence → compressor → loudness → gain → output
+ *    └→ K-weighting → analyser (loudness measurement and silence detection)
+ */
+
+export interface AudioGraph {
+  context: AudioContext;
+  source: MediaElementAudioSourceNode;
+  highpass: BiquadFilterNode;
+  lowShelf: BiquadFilterNode;
+  presence: BiquadFilterNode;
+  compressor: DynamicsCompressorNode;
+  // Loudness normalisation
+  loudness: GainNode;
+  // Playback profile gain
+  gain: GainNode;
+  analyser: AnalyserNode;
+}
+
+const graphs = new WeakMap<HTMLMediaElement, AudioGraph>();
+
+/**
+ * Route a media element through a Web Audio graph, created on first use.
+ * An element can only be attached to one source node, so the graph is reused
+ * for the element's whole lifetime.
+ */
+export const getAudioGraph = (element: HTMLMediaElement): AudioGraph | null => {
+  const existing = graphs.get(element);
+  if (existing) return existing;
+
+  try {
+    const context = new AudioContext();
+    const source = context.createMediaElementSource(element);
+
+    const highpass = context.createBiquadFilter();
+    highpass.type = 'highpass';
+    const lowShelf = context.createBiquadFilter();
+    lowShelf.type = 'lowshelf';
+    lowShelf.frequency.value = 250;
+    const presence = context.createBiquadFilter();
+    presence.type = 'peaking';
+    presence.frequency.value = 3000;
+    presence.Q.value = 0.9;
+    const compressor = context.createDynamicsCompressor();
+    const loudness = context.createGain();
+    const gain = context.createGain();
+
+    source.connect(highpass);
+    highpass.connect(lowShelf);
+    lowShelf.connect(presence);
+    presence.connect(compressor);
+    compressor.connect(loudness);
+    loudness.connect(gain);
+    gain.connect(context.destination);
+
+    // Approximate ITU-R BS.1770 K-weighting for the measurement tap
+    const kShelf = context.createBiquadFilter();
+    kShelf.type = 'highshelf';
+    kShelf.frequency.value = 1681;
+    kShelf.gain.value = 4;
+    const kHighpass = context.createBiquadFilter();
+    kHighpass.type = 'highpass';
+    kHighpass.frequency.value = 38;
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 4096;
+    source.connect(kShelf);
+    kShelf.connect(kHighpass);
+    kHighpass.connect(analyser);
+
+    const graph = { context, source, highpass, lowShelf, presence, compressor, loudness, gain, analyser };
+    setVoiceBoost(graph, false);
+    setNightMode(graph, false);
+    graphs.set(element, graph);
+    return graph;
+  } catch (err) {
+    console.error('创建音频处理链失败', err);
+    return null;
+  }
+};
+
+export const hasAudioGraph = (element: HTMLMediaElement) => graphs.has(element);
+
+/**
+ * Feed another element into an existing graph so it gets the same effects and
+ * gains, e.g. the next chapter playing as a gapless bridge. The element stays
+ * bound to this graph's context for its lifetime.
+ */
+export const attachToGraph = (graph: AudioGraph, element: HTMLMediaElement) => {
+  try {
+    const source = graph.context.createMediaElementSource(element);
+    source.connect(graph.highpass);
+    return source;
+  } catch (err) {
+    console.error('连接音频处理链失败', err);
+    return null;
+  }
+};
+
+/** Dialogue EQ preset, neutral when disabled */
+export const setVoiceBoost = (graph: AudioGraph, enabled: boolean) => {
+  graph.highpass.frequency.value = enabled ? 90 : 10;
+  graph.lowShelf.gain.value = enabled ? -3 : 0;
+  graph.presence.gain.value = enabled ? 5 : 0;
+};
+
+/** Night listening compressor, a 1:1 ratio passes audio through untouched */
+export const setNightMode = (graph: AudioGraph, enabled: boolean) => {
+  const { compressor } = graph;
+  compressor.threshold.value = enabled ? -32 : 0;
+  compressor.knee.value = enabled ? 12 : 0;
+  compressor.ratio.value = enabled ? 6 : 1;
+  compressor.attack.value = 0.005;
+  compressor.release.value = 0.25;
+};
+
+/** Mean square of the analyser's current block, K-weighted */
+export const readMeanSquare = (graph: AudioGraph, buffer: Float32Array<ArrayBuffer>) => {
+  graph.analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    sum += buffer[i] * buffer[i];
+  }
+  return sum / buffer.length;
+};
+
+/** Loudness in LUFS of a K-weighted mean square */
+export const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(Math.max(meanSquare, 1e-12));
+
+/**
+ * Gated integrated loudness over momentary block loudness values,
+ * following EBU R128: absolute gate at -70 LUFS, relative gate 10 LU below.
+ */
+export const integratedLoudness = (blocks: number[]) => {
+  const average = (values: number[]) =>
+    toLufs(values.reduce((sum, lufs) => sum + Math.pow(10, (lufs + 0.691) / 10), 0) / values.length);
+
+  const absolute = blocks.filter(lufs => lufs > -70);
+  if (absolute.length === 0) return null;
+  const relativeGate = average(absolute) - 10;
+  const relative = absolute.filter(lufs => lufs > relativeGate);
+  return relative.length > 0 ? average(relative) : null;
+};
@@ -0,0 +1,54 @@
+import type { Book, Bookmark, Chapter } from '../types';
+
+export const formatPosition = (time: number) => {
+  if (!Number.isFinite(time) || time < 0) return '0:00';
+  const h = Math.floor(time / 3600);
+  const m = Math.floor((time % 3600) / 60);
+  const s = Math.floor(time % 60);
+  if (h > 0) {
+    return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  }
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+/** Order bookmarks by chapter order, then by position within the chapter */
+export const sortBookmarks = (bookmarks: Bookmark[], chapters: Chapter[]) => {
+  const order = new Map(chapters.map((c, i) => [c.id, i]));
+  return [...bookmarks].sort((a, b) => {
+    const diff = (order.get(a.chapterId) ?? Infinity) - (order.get(b.chapterId) ?? Infinity);
+    return diff !== 0 ? diff : a.position - b.position;
+  });
+};
+
+export const bookmarksToMarkdown = (book: Book, chapters: Chapter[], bookmarks: Bookmark[]) => {
+  const chapterMap = new Map(chapters.map(c => [c.id, c]));
+  const lines = [`# ${book.title}`, ''];
+  if (book.author) lines.push(`- 作者：${book.author}`);
+  if (book.narrator) lines.push(`- 演播：${book.narrator}`);
+  if (book.author || book.narrator) lines.push('');
+
+  let lastChapterId: string | null = null;
+  for (const bookmark of sortBookmarks(bookmarks, chapters)) {
+    if (bookmark.chapterId !== lastChapterId) {
+      lines.push(`## ${chapterMap.get(bookmark.chapterId)?.title || '未知章节'}`, '');
+      lastChapterId = bookmark.chapterId;
+    }
+    lines.push(`### [${formatPosition(bookmark.position)}] ${bookmark.title}`, '');
+    if (bookmark.note) {
+      lines.push(...bookmark.note.split('\n').map(line => `> ${line}`), '');
+    }
+  }
+  return lines.join('\n');
+};
+
+export const downloadTextFile = (data: string, filename: string, type = 'text/plain') => {
+  const blob = new Blob([data], { type: `${type};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,115 @@
+import type { CredentialUpdate, RenewedSession, SavedLogin } from '../types';
+import { getElectronAPI } from './env';
+import {
+  ACTIVE_SERVER_PROFILE_KEY,
+  DEFAULT_SERVER_PROFILE_ID,
+  SERVER_PROFILES_KEY,
+  safeStorage
+} from './storage';
+
+// Plaintext keys written by older versions
+const LEGACY_USERNAME_KEY = 'saved_username';
+const LEGACY_PASSWORD_KEY = 'saved_password';
+const LEGACY_REFRESH_TOKEN_KEY = 'refresh_token';
+const LEGACY_KEYS = [LEGACY_USERNAME_KEY, LEGACY_PASSWORD_KEY, LEGACY_REFRESH_TOKEN_KEY];
+
+const toCredential = (values: Record<string, string | null | undefined>): CredentialUpdate | null => {
+  const credential: CredentialUpdate = {};
+  if (values[LEGACY_USERNAME_KEY] && values[LEGACY_PASSWORD_KEY]) {
+    credential.username = values[LEGACY_USERNAME_KEY];
+    credential.password = values[LEGACY_PASSWORD_KEY];
+  }
+  if (values[LEGACY_REFRESH_TOKEN_KEY]) credential.refreshToken = values[LEGACY_REFRESH_TOKEN_KEY];
+  return Object.keys(credential).length > 0 ? credential : null;
+};
+
+const getActiveAccount = () => safeStorage.getItem(ACTIVE_SERVER_PROFILE_KEY) || DEFAULT_SERVER_PROFILE_ID;
+
+const takeLegacyCredentials = () => {
+  const found: Array<{ account: string; credential: CredentialUpdate }> = [];
+
+  const active = toCredential(Object.fromEntries(LEGACY_KEYS.map(key => [key, safeStorage.getItem(key)])));
+  if (active) found.push({ account: getActiveAccount(), credential: active });
+  LEGACY_KEYS.forEach(key => safeStorage.removeItem(key));
+
+  // Inactive server profiles keep their own copy of the keys
+  try {
+    const profiles = JSON.parse(safeStorage.getItem(SERVER_PROFILES_KEY) || '[]');
+    if (Array.isArray(profiles)) {
+      let changed = false;
+      for (const profile of profiles) {
+        const session = profile?.session;
+        if (!session || !LEGACY_KEYS.some(key => key in session)) continue;
+        const credential = toCredential(session);
+        if (credential) found.push({ account: profile.id, credential });
+        LEGACY_KEYS.forEach(key => delete session[key]);
+        changed = true;
+      }
+      if (changed) safeStorage.setItem(SERVER_PROFILES_KEY, JSON.stringify(profiles));
+    }
+  } catch {
+    // ignore malformed profiles
+  }
+
+  return found;
+};
+
+const runMigration = async () => {
+  const api = getElectronAPI();
+  if (!api) return;
+  // Wipe synchronously so nothing reads or re-saves the plaintext keys meanwhile
+  const legacy = takeLegacyCredentials();
+  if (legacy.length === 0) return;
+
+  const available = await api.credentialsAvailable().catch(() => false);
+  if (!available) {
+    console.warn('系统密钥库不可用，旧的已保存登录信息已清除，请重新登录');
+    return;
+  }
+  for (const { account, credential } of legacy) {
+    await api.saveCredential(account, credential).catch(err => console.error('迁移已保存的登录信息失败', err));
+  }
+};
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Move plaintext logins and refresh tokens from localStorage into the OS
+ * keychain. Runs once per launch; after the first run there is nothing left to migrate.
+ */
+export const migrateLegacyCredentials = () => {
+  if (!migration) migration = runMigration();
+  return migration;
+};
+
+/** Saved login of the active server profile, without its secrets (Electron only) */
+export const loadCredential = async (): Promise<SavedLogin | null> => {
+  const api = getElectronAPI();
+  if (!api) return null;
+  await migrateLegacyCredentials();
+  return api.loadCredential(getActiveAccount()).catch(() => null);
+};
+
+export const saveCredential = async (credential: CredentialUpdate) => {
+  const api = getElectronAPI();
+  if (!api) return false;
+  await migrateLegacyCredentials();
+  const result = await api.saveCredential(getActiveAccount(), credential).catch(() => ({ success: false }));
+  if (!result.success) console.warn('无法保存登录信息到系统密钥库');
+  return result.success;
+};
+
+/** Renew the active profile's session in the main process with its saved login */
+export const renewSavedSession = async (baseUrl: string): Promise<RenewedSession> => {
+  const api = getElectronAPI();
+  if (!api) return { rejected: true };
+  await migrateLegacyCredentials();
+  return api.renewSession(getActiveAccount(), baseUrl);
+};
+
+export const clearCredential = async (account = getActiveAccount()) => {
+  const api = getElectronAPI();
+  if (!api) return;
+  await migrateLegacyCredentials();
+  await api.deleteCredential(account).catch(err => console.error('清除已保存的登录信息失败', err));
+};
@@ -52,3 +52,18 @@ export const formatDate = (dateString: string | null | undefined): string => {
     return '未知时间';
   }
 };
+
+/** Parse a server timestamp (ISO or SQL "YYYY-MM-DD HH:MM:SS", UTC) into epoch ms, 0 if invalid */
+export const parseServerDate = (dateString: string | null | undefined): number => {
+  if (!dateString) return 0;
+  let cleanDate = dateString.trim();
+  if (cleanDate.charAt(10) === ' ') {
+    cleanDate = cleanDate.substring(0, 10) + 'T' + cleanDate.substring(11);
+  }
+  cleanDate = cleanDate.replace(/(\.\d{3})\d+/, '$1');
+  if (!/(Z|[+-]\d{2}:?\d{2})$/.test(cleanDate)) {
+    cleanDate += 'Z';
+  }
+  const time = new Date(cleanDate).getTime();
+  return isNaN(time) ? 0 : time;
+};
@@ -0,0 +1,31 @@
+import type { Chapter } from '../types';
+import { useAuthStore } from '../store/authStore';
+import { safeStorage } from './storage';
+
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'm4b', 'aac', 'flac', 'ogg', 'opus', 'wav', 'wma'];
+
+/** File name of a chapter inside the offline cache: `<chapterId>.<ext>` */
+export const getChapterFileName = (chapter: Chapter) => {
+  const match = chapter.path?.match(/\.([a-z0-9]+)$/i);
+  const ext = match && AUDIO_EXTENSIONS.includes(match[1].toLowerCase()) ? match[1].toLowerCase() : 'audio';
+  return `${chapter.id}.${ext}`;
+};
+
+/** Authenticated stream URL used both by the player and the download manager */
+export const getChapterStreamUrl = (chapterId: string) => {
+  const { activeUrl, token } = useAuthStore.getState();
+  let baseUrl = activeUrl || safeStorage.getItem('active_url') || safeStorage.getItem('server_url') || '';
+  if (baseUrl.endsWith('/')) {
+    baseUrl = baseUrl.slice(0, -1);
+  }
+  return `${baseUrl}/api/stream/${chapterId}?token=${token || ''}`;
+};
+
+/** Custom protocol registered in electron/main.js that serves the offline cache */
+export const CACHE_PROTOCOL = 'ting-cache://';
+
+export const getCachedChapterUrl = (fileName: string) => `${CACHE_PROTOCOL}media/${encodeURIComponent(fileName)}`;
+
+export const getCachedCoverUrl = (bookId: string) => `${CACHE_PROTOCOL}covers/${encodeURIComponent(bookId)}.jpg`;
+
+export const isCachedSource = (url: string) => url.startsWith(CACHE_PROTOCOL);
@@ -1,2 +1,5 @@
-export const isApp = false;
+import type { ElectronAPI } from '../types';
+
 export const isElectron = !!(window as Window & { electronAPI?: unknown }).electronAPI;
+
+export const getElectronAPI = () => (window as Window & { electronAPI?: ElectronAPI }).electronAPI;
@@ -0,0 +1,15 @@
+export const MIN_PLAYBACK_SPEED = 0.5;
+export const MAX_PLAYBACK_SPEED = 4;
+export const PLAYBACK_SPEED_STEP = 0.05;
+export const PLAYBACK_SPEED_PRESETS = [0.75, 1, 1.25, 1.5, 2, 3];
+
+/** Snap to the slider step within the supported range */
+export const clampSpeed = (speed: number) => {
+  const stepped = Math.round(speed / PLAYBACK_SPEED_STEP) * PLAYBACK_SPEED_STEP;
+  return Number(Math.min(MAX_PLAYBACK_SPEED, Math.max(MIN_PLAYBACK_SPEED, stepped)).toFixed(2));
+};
+
+export const formatSpeed = (speed: number) => `${Number(speed.toFixed(2))}x`;
+
+/** Listening time for `seconds` of audio at `speed` */
+export const scaleBySpeed = (seconds: number, speed: number) => seconds / (speed || 1);
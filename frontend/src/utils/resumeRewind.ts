@@ -0,0 +1,20 @@
+export interface ResumeRewindSettings {
+  resumeRewind: boolean;
+  resumeRewindMin: number;
+  resumeRewindMax: number;
+}
+
+// Shorter pauses are treated as accidental taps and resume in place
+const MIN_PAUSE_MS = 3 * 1000;
+// Pauses of a day or longer rewind the full amount
+const MAX_PAUSE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Seconds to step back when resuming after a pause of `pausedMs`.
+ * Grows on a log scale from the minimum (a few seconds' pause) to the maximum (a day).
+ */
+export const getResumeRewind = (pausedMs: number, settings: ResumeRewindSettings) => {
+  if (!settings.resumeRewind || !Number.isFinite(pausedMs) || pausedMs < MIN_PAUSE_MS) return 0;
+  const ratio = Math.min(1, Math.log(pausedMs / MIN_PAUSE_MS) / Math.log(MAX_PAUSE_MS / MIN_PAUSE_MS));
+  return Math.round(settings.resumeRewindMin + (settings.resumeRewindMax - settings.resumeRewindMin) * ratio);
+};
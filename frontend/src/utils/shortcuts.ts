@@ -0,0 +1,101 @@
+export type ShortcutAction =
+  | 'playPause'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'speedDown'
+  | 'speedUp'
+  | 'nextChapter'
+  | 'prevChapter'
+  | 'focusSearch';
+
+export const SHORTCUT_ACTIONS: { id: ShortcutAction; label: string }[] = [
+  { id: 'playPause', label: '播放 / 暂停' },
+  { id: 'seekBackward', label: '后退 15 秒' },
+  { id: 'seekForward', label: '前进 15 秒' },
+  { id: 'speedDown', label: '减慢倍速' },
+  { id: 'speedUp', label: '加快倍速' },
+  { id: 'prevChapter', label: '上一章' },
+  { id: 'nextChapter', label: '下一章' },
+  { id: 'focusSearch', label: '搜索' }
+];
+
+export const DEFAULT_SHORTCUTS: Record<ShortcutAction, string> = {
+  playPause: 'Space',
+  seekBackward: 'ArrowLeft',
+  seekForward: 'ArrowRight',
+  speedDown: '[',
+  speedUp: ']',
+  nextChapter: 'N',
+  prevChapter: 'P',
+  focusSearch: '/'
+};
+
+// Actions that make sense while the window is unfocused
+export const GLOBAL_SHORTCUT_ACTIONS: ShortcutAction[] = [
+  'playPause', 'seekBackward', 'seekForward', 'speedDown', 'speedUp', 'nextChapter', 'prevChapter'
+];
+export const GLOBAL_SHORTCUT_PREFIX = 'CommandOrControl+Alt+';
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta'];
+
+/** Serialize a keydown into a binding like "Ctrl+Shift+N", null for bare modifier presses */
+export const eventToShortcut = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  let key = e.key === ' ' ? 'Space' : e.key;
+  if (key.length === 1) key = key.toUpperCase();
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  // Shift is implied by characters like "?" or "{"
+  if (e.shiftKey && (key.length > 1 || /[A-Z0-9]/.test(key))) parts.push('Shift');
+  if (e.metaKey) parts.push('Meta');
+  return [...parts, key].join('+');
+};
+
+const KEY_LABELS: Record<string, string> = {
+  Space: '空格',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓'
+};
+
+export const formatShortcut = (shortcut: string) =>
+  shortcut.split('+').map(part => KEY_LABELS[part] || part).join(' + ');
+
+const ACCELERATOR_KEYS: Record<string, string> = {
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  Ctrl: 'Control',
+  Meta: 'Super'
+};
+
+/** Convert a binding into an Electron accelerator, under the global modifier prefix */
+export const toGlobalAccelerator = (shortcut: string) => {
+  const parts = shortcut.split('+').filter(p => p !== 'Ctrl' && p !== 'Alt');
+  return GLOBAL_SHORTCUT_PREFIX + parts.map(part => ACCELERATOR_KEYS[part] || part).join('+');
+};
+
+type ShortcutHandler = () => void;
+const handlers = new Map<ShortcutAction, ShortcutHandler[]>();
+
+/**
+ * Register a handler for an action; the most recently registered one wins.
+ * Fallback handlers only run when nothing else is registered.
+ */
+export const registerShortcutHandler = (action: ShortcutAction, handler: ShortcutHandler, fallback = false) => {
+  const stack = handlers.get(action) || [];
+  handlers.set(action, fallback ? [handler, ...stack] : [...stack, handler]);
+  return () => {
+    handlers.set(action, (handlers.get(action) || []).filter(h => h !== handler));
+  };
+};
+
+export const dispatchShortcut = (action: ShortcutAction) => {
+  const stack = handlers.get(action);
+  if (!stack || stack.length === 0) return false;
+  stack[stack.length - 1]();
+  return true;
+};
@@ -21,3 +21,35 @@ export const safeStorage = {
     }
   }
 };
+
+// Server profile whose data the scoped storage reads, see serverProfileStore
+export const ACTIVE_SERVER_PROFILE_KEY = 'active_server_profile';
+export const SERVER_PROFILES_KEY = 'server_profiles';
+// The first profile keeps the unprefixed keys written before profiles existed
+export const DEFAULT_SERVER_PROFILE_ID = 'default';
+
+/** `key` namespaced to the active server profile */
+export const getServerScopedKey = (key: string) => {
+  const profileId = safeStorage.getItem(ACTIVE_SERVER_PROFILE_KEY);
+  return profileId && profileId !== DEFAULT_SERVER_PROFILE_ID ? `${profileId}:${key}` : key;
+};
+
+/** Storage for data that belongs to the active server profile (progress, queue, stats...) */
+export const serverScopedStorage = {
+  getItem: (key: string): string | null => safeStorage.getItem(getServerScopedKey(key)),
+  setItem: (key: string, value: string): void => safeStorage.setItem(getServerScopedKey(key), value),
+  removeItem: (key: string): void => safeStorage.removeItem(getServerScopedKey(key))
+};
+
+/** Drop everything a removed server profile stored */
+export const clearServerScopedData = (profileId: string) => {
+  if (profileId === DEFAULT_SERVER_PROFILE_ID) return;
+  try {
+    const prefix = `${profileId}:`;
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => localStorage.removeItem(key));
+  } catch {
+    // ignore
+  }
+};
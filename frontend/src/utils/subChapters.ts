@@ -0,0 +1,321 @@
+import type { SubChapter } from '../types';
+
+/**
+ * Read embedded chapters from MP4/M4B files over HTTP range requests.
+ * Supports QuickTime chapter tracks (tref/chap) and Nero `chpl` atoms,
+ * plus CUE sheets: supplied by the server or embedded in a FLAC file.
+ */
+
+// moov boxes larger than this are not worth downloading just for chapter names
+const MAX_MOOV_BYTES = 16 * 1024 * 1024;
+const MAX_TOP_LEVEL_BOXES = 32;
+// Fetch all chapter titles in one request when they sit this close together
+const MAX_TITLE_SPAN = 1024 * 1024;
+const MAX_FLAC_BLOCKS = 32;
+// Vorbis comment blocks larger than this hold more than tags
+const MAX_FLAC_COMMENT_BYTES = 1024 * 1024;
+// CUE sheet times are mm:ss:ff with 75 frames per second
+const CUE_FRAMES_PER_SECOND = 75;
+
+interface Box {
+  type: string;
+  start: number; // payload start
+  end: number;
+}
+
+const MP4_EXTENSIONS = ['.m4b', '.m4a', '.mp4'];
+
+export const isMp4Path = (path?: string) =>
+  !!path && MP4_EXTENSIONS.some(ext => path.toLowerCase().endsWith(ext));
+
+export const isFlacPath = (path?: string) => !!path && path.toLowerCase().endsWith('.flac');
+
+const fetchRange = async (url: string, start: number, end: number) => {
+  const res = await fetch(url, { headers: { Range: `bytes=${start}-${end - 1}` } });
+  if (res.status !== 206) throw new Error(`Range request failed: ${res.status}`);
+  return new DataView(await res.arrayBuffer());
+};
+
+const readType = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const readBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = readType(view, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+    boxes.push({ type, start: offset + header, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return boxes;
+};
+
+const findBox = (view: DataView, parent: Box, path: string[]): Box | undefined => {
+  let current: Box | undefined = parent;
+  for (const type of path) {
+    current = readBoxes(view, current.start, current.end).find(b => b.type === type);
+    if (!current) return undefined;
+  }
+  return current;
+};
+
+// Locate and download the moov box by walking the top-level box headers
+const fetchMoov = async (url: string) => {
+  const probe = await fetch(url, { headers: { Range: 'bytes=0-0' } });
+  probe.body?.cancel().catch(() => {});
+  const fileSize = parseInt(probe.headers.get('Content-Range')?.split('/')[1] || '', 10);
+  if (!Number.isFinite(fileSize)) return null;
+
+  let offset = 0;
+  for (let i = 0; i < MAX_TOP_LEVEL_BOXES && offset + 8 <= fileSize; i++) {
+    const header = await fetchRange(url, offset, Math.min(offset + 16, fileSize));
+    let size = header.getUint32(0);
+    const type = readType(header, 4);
+    if (size === 1) size = Number(header.getBigUint64(8));
+    else if (size === 0) size = fileSize - offset;
+    if (size < 8) return null;
+
+    if (type === 'moov') {
+      if (size > MAX_MOOV_BYTES) return null;
+      const view = await fetchRange(url, offset, offset + size);
+      return readBoxes(view, 0, view.byteLength).find(b => b.type === 'moov') ? view : null;
+    }
+    offset += size;
+  }
+  return null;
+};
+
+const fullBoxVersion = (view: DataView, box: Box) => view.getUint8(box.start);
+
+const readTrackId = (view: DataView, trak: Box) => {
+  const tkhd = findBox(view, trak, ['tkhd']);
+  if (!tkhd) return null;
+  // version 1 uses 64-bit creation/modification times
+  return view.getUint32(tkhd.start + (fullBoxVersion(view, tkhd) === 1 ? 20 : 12));
+};
+
+const readChapterTrackTitles = async (url: string, view: DataView, moov: Box) => {
+  const traks = readBoxes(view, moov.start, moov.end).filter(b => b.type === 'trak');
+
+  let chapterTrackId: number | null = null;
+  for (const trak of traks) {
+    const chap = findBox(view, trak, ['tref', 'chap']);
+    if (chap && chap.end - chap.start >= 4) {
+      chapterTrackId = view.getUint32(chap.start);
+      break;
+    }
+  }
+  const trak = traks.find(t => readTrackId(view, t) === chapterTrackId);
+  if (!trak) return null;
+
+  const mdhd = findBox(view, trak, ['mdia', 'mdhd']);
+  const stbl = findBox(view, trak, ['mdia', 'minf', 'stbl']);
+  if (!mdhd || !stbl) return null;
+  const timescale = view.getUint32(mdhd.start + (fullBoxVersion(view, mdhd) === 1 ? 20 : 12));
+  const tables = readBoxes(view, stbl.start, stbl.end);
+  const stts = tables.find(b => b.type === 'stts');
+  const stsz = tables.find(b => b.type === 'stsz');
+  const stsc = tables.find(b => b.type === 'stsc');
+  const stco = tables.find(b => b.type === 'stco' || b.type === 'co64');
+  if (!timescale || !stts || !stsz || !stsc || !stco) return null;
+
+  // Sample start times
+  const starts: number[] = [];
+  let time = 0;
+  for (let i = 0, n = view.getUint32(stts.start + 4); i < n; i++) {
+    const count = view.getUint32(stts.start + 8 + i * 8);
+    const delta = view.getUint32(stts.start + 12 + i * 8);
+    for (let j = 0; j < count; j++) {
+      starts.push(time / timescale);
+      time += delta;
+    }
+  }
+
+  // Sample sizes
+  const fixedSize = view.getUint32(stsz.start + 4);
+  const sampleCount = view.getUint32(stsz.start + 8);
+  const sizes = Array.from({ length: sampleCount }, (_, i) => fixedSize || view.getUint32(stsz.start + 12 + i * 4));
+
+  // Sample offsets, walking chunks with the sample-to-chunk runs
+  const is64 = stco.type === 'co64';
+  const chunkCount = view.getUint32(stco.start + 4);
+  const chunkOffset = (i: number) => is64
+    ? Number(view.getBigUint64(stco.start + 8 + i * 8))
+    : view.getUint32(stco.start + 8 + i * 4);
+  const runCount = view.getUint32(stsc.start + 4);
+  const runs = Array.from({ length: runCount }, (_, i) => ({
+    firstChunk: view.getUint32(stsc.start + 8 + i * 12),
+    samplesPerChunk: view.getUint32(stsc.start + 12 + i * 12)
+  }));
+
+  const offsets: number[] = [];
+  for (let chunk = 1, run = 0; chunk <= chunkCount && offsets.length < sampleCount; chunk++) {
+    while (run + 1 < runs.length && runs[run + 1].firstChunk <= chunk) run++;
+    let offset = chunkOffset(chunk - 1);
+    for (let s = 0; s < (runs[run]?.samplesPerChunk ?? 0) && offsets.length < sampleCount; s++) {
+      offsets.push(offset);
+      offset += sizes[offsets.length - 1];
+    }
+  }
+  if (offsets.length === 0) return null;
+
+  // Text samples: 16-bit length followed by the title
+  const spanStart = Math.min(...offsets);
+  const spanEnd = Math.max(...offsets.map((o, i) => o + sizes[i]));
+  const span = spanEnd - spanStart <= MAX_TITLE_SPAN ? await fetchRange(url, spanStart, spanEnd) : null;
+
+  const titles: { start: number; title: string }[] = [];
+  for (let i = 0; i < offsets.length; i++) {
+    const sample = span
+      ? new DataView(span.buffer, offsets[i] - spanStart, sizes[i])
+      : await fetchRange(url, offsets[i], offsets[i] + sizes[i]);
+    const length = sample.byteLength >= 2 ? Math.min(sample.getUint16(0), sample.byteLength - 2) : 0;
+    const bytes = new Uint8Array(sample.buffer, sample.byteOffset + 2, length);
+    const isUtf16 = length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff;
+    const title = new TextDecoder(isUtf16 ? 'utf-16be' : 'utf-8').decode(isUtf16 ? bytes.subarray(2) : bytes);
+    titles.push({ start: starts[i] ?? 0, title: title.trim() });
+  }
+  return titles;
+};
+
+const readNeroChapters = (view: DataView, moov: Box) => {
+  const chpl = findBox(view, moov, ['udta', 'chpl']);
+  if (!chpl) return null;
+
+  let offset = chpl.start + 4;
+  if (fullBoxVersion(view, chpl) === 1) offset += 4;
+  const count = view.getUint8(offset++);
+  const decoder = new TextDecoder('utf-8');
+  const titles: { start: number; title: string }[] = [];
+  for (let i = 0; i < count && offset + 9 <= chpl.end; i++) {
+    // 100-nanosecond units
+    const start = Number(view.getBigUint64(offset)) / 10_000_000;
+    const length = view.getUint8(offset + 8);
+    const title = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 9, length));
+    titles.push({ start, title: title.trim() });
+    offset += 9 + length;
+  }
+  return titles;
+};
+
+const toSubChapters = (titles: { start: number; title: string }[], duration: number): SubChapter[] =>
+  titles
+    .sort((a, b) => a.start - b.start)
+    .map((t, i, all) => ({
+      title: t.title || `第 ${i + 1} 节`,
+      start: t.start,
+      end: all[i + 1]?.start ?? duration
+    }));
+
+/** Embedded chapters of an MP4 file, an empty list when there are none */
+export const readMp4SubChapters = async (url: string, duration: number): Promise<SubChapter[]> => {
+  const view = await fetchMoov(url);
+  if (!view) return [];
+  const moov = readBoxes(view, 0, view.byteLength).find(b => b.type === 'moov');
+  if (!moov) return [];
+
+  const titles = (await readChapterTrackTitles(url, view, moov)) || readNeroChapters(view, moov);
+  // A single entry spanning the file is not worth nesting
+  return titles && titles.length > 1 ? toSubChapters(titles, duration) : [];
+};
+
+// File name without directory or extension; CUE sheets often name the .wav the rip was made from
+const fileStem = (path: string) => path.split(/[\\/]/).pop()!.replace(/\.[^.]*$/, '').toLowerCase();
+
+const unquote = (value: string) => value.trim().replace(/^"(.*)"$/, '$1');
+
+/** Tracks of a CUE sheet that belong to the file at `path`, an empty list when there are none */
+export const parseCueSheet = (text: string, path: string, duration: number): SubChapter[] => {
+  const tracks: { file: string; title: string; start: number | null; pregap: number | null }[] = [];
+  let file = '';
+  for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const match = line.trim().match(/^(\S+)\s*(.*)$/);
+    if (!match) continue;
+    const command = match[1].toUpperCase();
+    const args = match[2];
+    const track = tracks[tracks.length - 1];
+
+    if (command === 'FILE') {
+      // FILE "name" WAVE, the name may be unquoted
+      file = unquote(args.replace(/\s+\S+$/, ''));
+    } else if (command === 'TRACK') {
+      tracks.push({ file, title: '', start: null, pregap: null });
+    } else if (command === 'TITLE' && track) {
+      track.title = unquote(args);
+    } else if (command === 'INDEX' && track) {
+      const index = args.match(/^(\d+)\s+(\d+):(\d+):(\d+)/);
+      if (!index) continue;
+      const [, number, minutes, seconds, frames] = index.map(Number);
+      const time = minutes * 60 + seconds + frames / CUE_FRAMES_PER_SECOND;
+      if (number === 1) track.start = time;
+      else if (number === 0) track.pregap = time;
+    }
+  }
+
+  // One sheet can describe several files, keep the tracks of this one
+  const files = new Set(tracks.map(t => t.file));
+  const stem = fileStem(path);
+  const own = files.size > 1 ? tracks.filter(t => fileStem(t.file) === stem) : tracks;
+  const titles = own
+    .map(t => ({ start: t.start ?? t.pregap, title: t.title }))
+    .filter((t): t is { start: number; title: string } => t.start !== null);
+  return titles.length > 1 ? toSubChapters(titles, duration) : [];
+};
+
+// Walk the FLAC metadata blocks for a CUESHEET entry in the Vorbis comments
+const readFlacCueSheet = async (url: string) => {
+  const magic = await fetchRange(url, 0, 4);
+  if (readType(magic, 0) !== 'fLaC') return null;
+
+  let offset = 4;
+  for (let i = 0; i < MAX_FLAC_BLOCKS; i++) {
+    const header = await fetchRange(url, offset, offset + 4);
+    const isLast = (header.getUint8(0) & 0x80) !== 0;
+    const type = header.getUint8(0) & 0x7f;
+    const length = (header.getUint8(1) << 16) | (header.getUint8(2) << 8) | header.getUint8(3);
+    offset += 4;
+
+    if (type === 4) {
+      if (length > MAX_FLAC_COMMENT_BYTES) return null;
+      const block = await fetchRange(url, offset, offset + length);
+      const decoder = new TextDecoder('utf-8');
+      let position = 4 + block.getUint32(0, true);
+      const count = block.getUint32(position, true);
+      position += 4;
+      for (let c = 0; c < count && position + 4 <= block.byteLength; c++) {
+        const size = block.getUint32(position, true);
+        const comment = decoder.decode(new Uint8Array(block.buffer, block.byteOffset + position + 4, size));
+        const separator = comment.indexOf('=');
+        if (comment.slice(0, separator).toUpperCase() === 'CUESHEET') return comment.slice(separator + 1);
+        position += 4 + size;
+      }
+      return null;
+    }
+    if (isLast) return null;
+    offset += length;
+  }
+  return null;
+};
+
+/** Chapters from the CUE sheet embedded in a FLAC file, an empty list when there is none */
+export const readFlacSubChapters = async (url: string, path: string, duration: number): Promise<SubChapter[]> => {
+  const cueSheet = await readFlacCueSheet(url);
+  return cueSheet ? parseCueSheet(cueSheet, path, duration) : [];
+};
+
+/** Sub-chapter playing at `time` */
+export const findSubChapterIndex = (subChapters: SubChapter[], time: number) => {
+  for (let i = subChapters.length - 1; i >= 0; i--) {
+    if (time >= subChapters[i].start) return i;
+  }
+  return subChapters.length > 0 ? 0 : -1;
+};
@@ -0,0 +1,116 @@
+/**
+ * Client-side waveform previews for the progress bar
+ */
+import { isCachedSource } from './download';
+import { getServerScopedKey } from './storage';
+
+// Decoding at a low rate keeps the PCM buffer small, levels don't need more
+const DECODE_SAMPLE_RATE = 8000;
+const SLICE_BYTES = 48 * 1024;
+const SLICE_CONCURRENCY = 4;
+
+const cache = new Map<string, Promise<number[] | null>>();
+
+const getFileInfo = async (url: string) => {
+  const res = await fetch(url, { headers: { Range: 'bytes=0-0' } });
+  // Only the headers are needed
+  res.body?.cancel().catch(() => {});
+  if (!res.ok) throw new Error(`Waveform probe failed: ${res.status}`);
+  const type = res.headers.get('Content-Type') || '';
+  const range = res.headers.get('Content-Range');
+  if (range) {
+    const total = parseInt(range.split('/')[1], 10);
+    if (Number.isFinite(total)) return { size: total, type };
+  }
+  const length = parseInt(res.headers.get('Content-Length') || '', 10);
+  return { size: res.status === 200 && Number.isFinite(length) ? length : null, type };
+};
+
+// MP4/M4B keep their sample index in the moov box, byte slices can't be decoded
+const isMp4Container = (type: string) => /mp4|m4a|m4b/i.test(type);
+
+const decode = async (data: ArrayBuffer) => {
+  const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  return context.decodeAudioData(data);
+};
+
+const rms = (samples: Float32Array, start = 0, end = samples.length) => {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return end > start ? Math.sqrt(sum / (end - start)) : 0;
+};
+
+// Scale to 0..1 against the loudest bucket so quiet recordings still show shape
+const normalize = (levels: number[]) => {
+  const max = Math.max(...levels);
+  return max > 0 ? levels.map(level => level / max) : levels;
+};
+
+const computeFromWholeFile = async (url: string, buckets: number) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Waveform download failed: ${res.status}`);
+  const audio = await decode(await res.arrayBuffer());
+  const samples = audio.getChannelData(0);
+  const size = Math.floor(samples.length / buckets);
+  const levels = Array.from({ length: buckets }, (_, i) => rms(samples, i * size, (i + 1) * size));
+  return normalize(levels);
+};
+
+// Decode short byte ranges spread across the file. Works for frame-based formats
+// such as MP3; containers that need their index up front fail and return null.
+const computeFromSlices = async (url: string, size: number, buckets: number) => {
+  const levels = new Array<number>(buckets).fill(0);
+  let decoded = 0;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < buckets) {
+      const index = next++;
+      const start = Math.floor((size / buckets) * index);
+      try {
+        const res = await fetch(url, { headers: { Range: `bytes=${start}-${Math.min(start + SLICE_BYTES, size) - 1}` } });
+        if (res.status !== 206) continue;
+        const audio = await decode(await res.arrayBuffer());
+        levels[index] = rms(audio.getChannelData(0));
+        decoded++;
+      } catch {
+        // Slice did not start on a decodable frame, leave it flat
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: SLICE_CONCURRENCY }, worker));
+  return decoded > buckets / 2 ? normalize(levels) : null;
+};
+
+const compute = async (url: string, buckets: number) => {
+  const { size, type } = await getFileInfo(url);
+  if (size === null) return null;
+  // Slicing fetches up to this much anyway, smaller files are simply decoded whole.
+  // Larger ones are not, even from disk: a long low-bitrate file decodes to gigabytes of PCM
+  if (size <= buckets * SLICE_BYTES) return computeFromWholeFile(url, buckets);
+  // Large MP4/M4B files can't be sliced, they get no waveform
+  if (isMp4Container(type)) return null;
+  return computeFromSlices(url, size, buckets);
+};
+
+/**
+ * Compute a waveform of `buckets` levels in 0..1 for a chapter's audio URL.
+ * Results are cached per server, chapter and source (stream or download) for
+ * the session, null means unsupported. Failed attempts are not cached.
+ */
+export const getWaveform = (chapterId: string, url: string, buckets = 200) => {
+  const key = getServerScopedKey(`${chapterId}:${isCachedSource(url) ? 'cached' : 'stream'}:${buckets}`);
+  let pending = cache.get(key);
+  if (!pending) {
+    pending = compute(url, buckets).catch(err => {
+      console.warn('生成波形失败', err);
+      cache.delete(key);
+      return null;
+    });
+    cache.set(key, pending);
+  }
+  return pending;
+};